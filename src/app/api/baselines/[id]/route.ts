@@ -0,0 +1,96 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  authorizeBaselineWrite,
+  baselineStoreFromEnv,
+  type BaselineMetadata,
+} from "@/lib/baseline-store";
+import { CodedError, ERROR_CODES, type ErrorCode } from "@/lib/errors";
+
+interface BaselineResponseBody {
+  baseline: BaselineMetadata | null;
+  imageSource?: string | null; // Data URI of the stored image
+  error: string | null;
+  code?: ErrorCode;
+  retryable?: boolean;
+}
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": process.env.ALLOWED_ORIGIN || "*",
+  "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
+
+function errorResponse(code: ErrorCode, error: string) {
+  const { status, retryable } = ERROR_CODES[code];
+  return NextResponse.json(
+    { baseline: null, error, code, retryable } as BaselineResponseBody,
+    { status, headers: corsHeaders }
+  );
+}
+
+const notFound = (id: string) =>
+  errorResponse("BASELINE_NOT_FOUND", `Baseline "${id}" not found. Baseline ids are "<name>:<tag>".`);
+
+// GET /api/baselines/:id returns the metadata and the image as a data URI
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const baseline = await baselineStoreFromEnv().get(id);
+    if (!baseline) {
+      return notFound(id);
+    }
+    const { metadata, image } = baseline;
+
+    return NextResponse.json(
+      {
+        baseline: metadata,
+        imageSource: `data:${metadata.contentType};base64,${image.toString("base64")}`,
+        error: null,
+      } as BaselineResponseBody,
+      { status: 200, headers: corsHeaders }
+    );
+  } catch (e: unknown) {
+    console.error('[API] Error in GET /api/baselines/[id]:', e);
+    return errorResponse(
+      "INTERNAL_ERROR",
+      e instanceof Error ? e.message : "An unexpected error occurred while reading the baseline."
+    );
+  }
+}
+
+// DELETE /api/baselines/:id removes the baseline. Needs the
+// BASELINE_API_TOKEN bearer token.
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    authorizeBaselineWrite(request.headers.get("authorization"));
+    if (!(await baselineStoreFromEnv().delete(id))) {
+      return notFound(id);
+    }
+    console.log('[API] Baseline deleted:', id);
+
+    return new NextResponse(null, { status: 204, headers: corsHeaders });
+  } catch (e: unknown) {
+    console.error('[API] Error in DELETE /api/baselines/[id]:', e);
+    if (e instanceof CodedError) {
+      return errorResponse(e.code, e.message);
+    }
+    return errorResponse(
+      "INTERNAL_ERROR",
+      e instanceof Error ? e.message : "An unexpected error occurred while deleting the baseline."
+    );
+  }
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createServer } from "http";
+import { mkdtemp, rm } from "fs/promises";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import sharp from "sharp";
+import { GET as listBaselines, POST as uploadBaseline } from "../route";
+import { GET as getBaseline, DELETE as deleteBaseline } from "../[id]/route";
+
+const createPng = () =>
+  sharp({
+    create: { width: 12, height: 8, channels: 3, background: { r: 40, g: 120, b: 200 } },
+  })
+    .png()
+    .toBuffer();
+
+const TOKEN = "test-token";
+const authorization = (token = TOKEN) => ({ authorization: `Bearer ${token}` });
+
+const createRequest = (body: any, headers: Record<string, string> = authorization()) =>
+  new NextRequest("http://localhost/api/baselines", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+const createDeleteRequest = (id: string, headers: Record<string, string> = authorization()) =>
+  new NextRequest(`http://localhost/api/baselines/${id}`, { method: "DELETE", headers });
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe("/api/baselines", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "baselines-"));
+    vi.stubEnv("BASELINE_STORE_DIR", dir);
+    vi.stubEnv("BASELINE_API_TOKEN", TOKEN);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should upload, list, fetch and delete a baseline", async () => {
+    const png = await createPng();
+
+    const uploaded = await uploadBaseline(
+      createRequest({
+        name: "checkout",
+        tag: "main",
+        imageSource: `data:image/png;base64,${png.toString("base64")}`,
+      })
+    );
+    expect(uploaded.status).toBe(201);
+    expect((await uploaded.json()).baseline).toMatchObject({
+      id: "checkout:main",
+      contentType: "image/png",
+      width: 12,
+      height: 8,
+      size: png.length,
+    });
+
+    const listed = await listBaselines(new NextRequest("http://localhost/api/baselines?name=checkout"));
+    expect((await listed.json()).baselines.map(({ id }: { id: string }) => id)).toEqual([
+      "checkout:main",
+    ]);
+
+    const fetched = await getBaseline(
+      new NextRequest("http://localhost/api/baselines/checkout:main"),
+      context("checkout:main")
+    );
+    expect(fetched.status).toBe(200);
+    expect((await fetched.json()).imageSource).toBe(`data:image/png;base64,${png.toString("base64")}`);
+
+    const deleted = await deleteBaseline(createDeleteRequest("checkout:main"), context("checkout:main"));
+    expect(deleted.status).toBe(204);
+
+    const missing = await getBaseline(
+      new NextRequest("http://localhost/api/baselines/checkout:main"),
+      context("checkout:main")
+    );
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).code).toBe("BASELINE_NOT_FOUND");
+  });
+
+  it("should accept multipart uploads and default the tag", async () => {
+    const png = await createPng();
+    const formData = new FormData();
+    formData.append("name", "home");
+    // The part's type is ignored: the stored bytes are decoded as they are
+    formData.append("image", new Blob([new Uint8Array(png)], { type: "text/plain" }), "home.png");
+
+    const response = await uploadBaseline(
+      new NextRequest("http://localhost/api/baselines", {
+        method: "POST",
+        headers: authorization(),
+        body: formData,
+      })
+    );
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).baseline).toMatchObject({
+      id: "home:latest",
+      contentType: "image/png",
+      size: png.length,
+    });
+  });
+
+  it("should return 504 when an imageSource URL stalls", async () => {
+    vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+    const timeout = AbortSignal.timeout.bind(AbortSignal);
+    vi.spyOn(AbortSignal, "timeout").mockImplementation(() => timeout(100));
+    const server = createServer(() => {});
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const response = await uploadBaseline(
+        createRequest({ name: "home", imageSource: `http://127.0.0.1:${port}/home.png` })
+      );
+
+      expect(response.status).toBe(504);
+      expect((await response.json()).code).toBe("TIMEOUT");
+    } finally {
+      vi.restoreAllMocks();
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should return 400 with field errors for an invalid upload", async () => {
+    const response = await uploadBaseline(createRequest({ name: "../etc", tag: "a b" }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.code).toBe("INVALID_REQUEST");
+    expect(data.errors.map(({ path }: { path: string }) => path)).toEqual([
+      "/imageSource",
+      "/name",
+      "/tag",
+    ]);
+  });
+
+  it("should return 400 for an image that cannot be decoded", async () => {
+    const response = await uploadBaseline(
+      createRequest({ name: "broken", imageSource: "data:image/png;base64,AAAA" })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("DECODE_FAILED");
+  });
+
+  it("should return 404 when deleting a missing baseline", async () => {
+    const response = await deleteBaseline(createDeleteRequest("nope:main"), context("nope:main"));
+
+    expect(response.status).toBe(404);
+  });
+
+  describe("authorization", () => {
+    const upload = async (headers: Record<string, string>) =>
+      uploadBaseline(
+        createRequest(
+          {
+            name: "checkout",
+            imageSource: `data:image/png;base64,${(await createPng()).toString("base64")}`,
+          },
+          headers
+        )
+      );
+
+    it.each([
+      ["a missing", {}],
+      ["a wrong", authorization("wrong-token")],
+      ["a non-bearer", { authorization: TOKEN }],
+    ])("should return 401 for %s token", async (_, headers) => {
+      const uploaded = await upload(headers);
+      const deleted = await deleteBaseline(createDeleteRequest("checkout:main", headers), context("checkout:main"));
+
+      expect(uploaded.status).toBe(401);
+      expect((await uploaded.json()).code).toBe("UNAUTHORIZED");
+      expect(deleted.status).toBe(401);
+      expect((await deleted.json()).code).toBe("UNAUTHORIZED");
+      expect((await listBaselines(new NextRequest("http://localhost/api/baselines"))).status).toBe(200);
+    });
+
+    it("should refuse writes when no token is configured", async () => {
+      vi.stubEnv("BASELINE_API_TOKEN", "");
+
+      const uploaded = await upload(authorization(""));
+      const deleted = await deleteBaseline(createDeleteRequest("checkout:main"), context("checkout:main"));
+
+      expect(uploaded.status).toBe(403);
+      expect((await uploaded.json()).code).toBe("BASELINE_WRITES_DISABLED");
+      expect(deleted.status).toBe(403);
+      expect((await deleted.json()).code).toBe("BASELINE_WRITES_DISABLED");
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { type NextRequest, NextResponse } from "next/server";
+import sharp from "sharp";
+import {
+  authorizeBaselineWrite,
+  BASELINE_NAME,
+  baselineStoreFromEnv,
+  DEFAULT_BASELINE_TAG,
+  type BaselineMetadata,
+} from "@/lib/baseline-store";
+import { CodedError, ERROR_CODES, type ErrorCode } from "@/lib/errors";
+import { base64ToBuffer } from "@/lib/image-source";
+import { validate, type Rule, type ValidationIssue } from "@/lib/validation";
+
+interface BaselineUploadRequestBody {
+  name?: string;
+  tag?: string; // default: 'latest'
+  imageSource?: string; // Data URI or image URL
+}
+
+interface BaselinesResponseBody {
+  baseline?: BaselineMetadata | null;
+  baselines?: BaselineMetadata[] | null;
+  error: string | null;
+  code?: ErrorCode;
+  retryable?: boolean;
+  errors?: ValidationIssue[];
+}
+
+const MAX_REQUEST_SIZE = 6 * 1024 * 1024;
+// Bounds fetching an imageSource URL, so a stalled source cannot hang the upload
+const FETCH_TIMEOUT = 30000;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": process.env.ALLOWED_ORIGIN || "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+const NAME_RULE: Rule = {
+  type: "string",
+  pattern: BASELINE_NAME,
+  expected: "1-128 letters, digits, '.', '_' or '-', starting with a letter or digit",
+};
+
+const UPLOAD_REQUEST_SCHEMA: Rule = {
+  type: "object",
+  required: ["name"],
+  properties: {
+    name: NAME_RULE,
+    tag: NAME_RULE,
+    imageSource: { type: "string", minLength: 1 },
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
+
+function errorResponse(code: ErrorCode, error: string, errors?: ValidationIssue[]) {
+  const { status, retryable } = ERROR_CODES[code];
+  return NextResponse.json(
+    { error, code, retryable, ...(errors && { errors }) } as BaselinesResponseBody,
+    { status, headers: corsHeaders }
+  );
+}
+
+// multipart/form-data with an image file part and name/tag text fields, or
+// JSON with an imageSource. An image part is kept as bytes.
+async function parseUploadBody(
+  request: NextRequest
+): Promise<{ body: BaselineUploadRequestBody; upload?: Buffer }> {
+  if (!(request.headers.get("content-type") ?? "").startsWith("multipart/form-data")) {
+    return { body: await request.json() };
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    throw new CodedError("INVALID_REQUEST", "Invalid multipart/form-data payload provided.");
+  }
+  const field = (key: string) => {
+    const value = formData.get(key);
+    return typeof value === "string" && value !== "" ? value : undefined;
+  };
+  const image = formData.get("image");
+  const upload = image && typeof image !== "string" ? Buffer.from(await image.arrayBuffer()) : undefined;
+  return {
+    body: {
+      name: field("name"),
+      tag: field("tag"),
+      imageSource: upload ? undefined : field("imageSource"),
+    },
+    upload,
+  };
+}
+
+// GET /api/baselines?name=&tag= lists baselines, optionally filtered
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const baselines = await baselineStoreFromEnv().list({
+      name: searchParams.get("name") ?? undefined,
+      tag: searchParams.get("tag") ?? undefined,
+    });
+
+    return NextResponse.json(
+      { baselines, error: null } as BaselinesResponseBody,
+      { status: 200, headers: corsHeaders }
+    );
+  } catch (e: unknown) {
+    console.error('[API] Error in GET /api/baselines:', e);
+    return errorResponse(
+      "INTERNAL_ERROR",
+      e instanceof Error ? e.message : "An unexpected error occurred while listing baselines."
+    );
+  }
+}
+
+// POST /api/baselines stores an image under name and tag, replacing any
+// baseline with the same id. Needs the BASELINE_API_TOKEN bearer token.
+export async function POST(request: NextRequest) {
+  console.log('[API] Baseline upload request received');
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT);
+
+  try {
+    authorizeBaselineWrite(request.headers.get("authorization"));
+
+    const contentLength = request.headers.get('content-length');
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
+      return errorResponse(
+        "PAYLOAD_TOO_LARGE",
+        `Request size (${(parseInt(contentLength) / 1024 / 1024).toFixed(2)}MB) exceeds Netlify's 6MB limit. Please use a smaller image.`
+      );
+    }
+
+    const { body, upload } = await parseUploadBody(request);
+    const { errors } = validate(body, UPLOAD_REQUEST_SCHEMA);
+    if (!upload && isPlainObject(body) && body.imageSource === undefined) {
+      // Listed first, like the schema's required fields
+      errors.unshift({ path: "/imageSource", message: "imageSource is required." });
+    }
+    if (errors.length > 0) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        errors.map((issue) => issue.message).join(" "),
+        errors
+      );
+    }
+
+    const { name, tag = DEFAULT_BASELINE_TAG, imageSource } =
+      body as Required<Pick<BaselineUploadRequestBody, "name">> & BaselineUploadRequestBody;
+
+    const image = upload ?? (await base64ToBuffer(imageSource as string, signal));
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(image).metadata();
+    } catch (error: any) {
+      throw new CodedError("DECODE_FAILED", `Failed to decode image: ${error.message}`);
+    }
+    const { format, width, height } = metadata;
+    if (!format || !width || !height) {
+      throw new CodedError("DECODE_FAILED", "Failed to decode image: unknown format.");
+    }
+
+    const baseline = await baselineStoreFromEnv().put({
+      name,
+      tag,
+      contentType: `image/${format === "svg" ? "svg+xml" : format}`,
+      width,
+      height,
+      image,
+    });
+
+    console.log('[API] Baseline stored:', baseline.id, baseline.size, 'bytes');
+
+    return NextResponse.json(
+      { baseline, error: null } as BaselinesResponseBody,
+      { status: 201, headers: corsHeaders }
+    );
+  } catch (e: unknown) {
+    console.error('[API] Error in POST /api/baselines:', e);
+
+    if (signal.aborted) {
+      return errorResponse("TIMEOUT", `Image source did not respond within ${FETCH_TIMEOUT}ms.`);
+    }
+    if (e instanceof CodedError) {
+      return errorResponse(e.code, e.message);
+    }
+    if (e instanceof SyntaxError) {
+      return errorResponse("INVALID_JSON", "Invalid JSON payload provided.");
+    }
+    return errorResponse(
+      "INTERNAL_ERROR",
+      e instanceof Error ? e.message : "An unexpected error occurred while storing the baseline."
+    );
+  }
+}
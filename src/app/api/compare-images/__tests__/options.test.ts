@@ -0,0 +1,1908 @@
+import { describe, it, expect, vi } from "vitest";
+import { createServer } from "http";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { NextRequest } from "next/server";
+import sharp from "sharp";
+import { POST } from "../route";
+import { FileSystemBaselineStore } from "@/lib/baseline-store";
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+const createImage = async (
+  width: number,
+  height: number,
+  background: [number, number, number],
+  rects: Array<Rect & { color: [number, number, number] }> = []
+) => {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = background[0];
+    data[i * 4 + 1] = background[1];
+    data[i * 4 + 2] = background[2];
+    data[i * 4 + 3] = 255;
+  }
+  for (const rect of rects) {
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) {
+        const idx = (y * width + x) * 4;
+        data[idx] = rect.color[0];
+        data[idx + 1] = rect.color[1];
+        data[idx + 2] = rect.color[2];
+      }
+    }
+  }
+  const png = await sharp(data, { raw: { width, height, channels: 4 } })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString("base64")}`;
+};
+
+const createRequest = (body: any) =>
+  new NextRequest("http://localhost/api/compare-images", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/compare-images options", () => {
+  describe("ignore.regions", () => {
+    it("should exclude ignored regions from diff count and total pixels", async () => {
+      const base = await createImage(100, 100, [255, 255, 255]);
+      const actual = await createImage(100, 100, [255, 255, 255], [
+        { x: 0, y: 0, width: 10, height: 10, color: [0, 0, 0] },
+        { x: 50, y: 50, width: 10, height: 10, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: {
+            ignore: { regions: [{ x: 0, y: 0, width: 20, height: 20 }] },
+            pixelmatch: { diffMask: true },
+            output: { includeMetadata: true, includeDiffBounds: true },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.metadata.comparison.diffPixels).toBe(100);
+      expect(data.metadata.comparison.totalPixels).toBe(10000 - 400);
+      expect(data.metadata.comparison.ignoredRegionPixels).toBe(400);
+      expect(data.differencePercentage).toBeCloseTo((100 / 9600) * 100);
+      expect(data.diffBounds).toMatchObject({ left: 50, top: 50, width: 10, height: 10 });
+    });
+
+    it("should draw ignored regions as hatched area in the diff image", async () => {
+      const base = await createImage(40, 40, [255, 255, 255]);
+      const actual = await createImage(40, 40, [255, 255, 255], [
+        { x: 30, y: 30, width: 5, height: 5, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { ignore: { regions: [{ x: 0, y: 0, width: 8, height: 8 }] } },
+        })
+      );
+      const data = await response.json();
+      const diff = await sharp(Buffer.from(data.diffImageUrl.split(",")[1], "base64"))
+        .raw()
+        .toBuffer();
+
+      expect(diff[0]).toBe(160);
+      expect(diff[4 * 4]).toBe(96);
+    });
+
+    it("should return 400 for out of bounds regions", async () => {
+      const image = await createImage(20, 20, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { ignore: { regions: [{ x: 10, y: 10, width: 20, height: 5 }] } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain("out of bounds");
+    });
+
+    it("should return 400 for overlapping regions", async () => {
+      const image = await createImage(20, 20, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: {
+            ignore: {
+              regions: [
+                { x: 0, y: 0, width: 10, height: 10 },
+                { x: 5, y: 5, width: 10, height: 10 },
+              ],
+            },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain("overlap");
+    });
+  });
+
+  describe("ignore.colors", () => {
+    it("should skip pixels matching an ignored color in either image", async () => {
+      const base = await createImage(50, 50, [255, 255, 255], [
+        { x: 0, y: 0, width: 10, height: 10, color: [255, 0, 170] },
+      ]);
+      const actual = await createImage(50, 50, [255, 255, 255], [
+        { x: 20, y: 20, width: 10, height: 10, color: [255, 0, 170] },
+        { x: 40, y: 40, width: 5, height: 5, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: {
+            ignore: { colors: ["#f0a"] },
+            output: { includeMetadata: true },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.metadata.comparison.diffPixels).toBe(25);
+      expect(data.metadata.comparison.ignoredColorPixels).toBe(200);
+      expect(data.metadata.comparison.totalPixels).toBe(2500);
+    });
+
+    it("should apply per-color tolerance", async () => {
+      const base = await createImage(20, 20, [255, 255, 255]);
+      const actual = await createImage(20, 20, [255, 255, 255], [
+        { x: 0, y: 0, width: 4, height: 4, color: [250, 10, 160] },
+      ]);
+
+      const strict = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { ignore: { colors: ["#ff00aa"] } },
+        })
+      );
+      const tolerant = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { ignore: { colors: [{ color: "#ff00aa", tolerance: 10 }] } },
+        })
+      );
+
+      expect((await strict.json()).differencePercentage).toBeGreaterThan(0);
+      expect((await tolerant.json()).differencePercentage).toBe(0);
+    });
+
+    it("should return 400 for invalid hex colors", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { ignore: { colors: ["red"] } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain("ignore color");
+    });
+  });
+
+  describe("colorSpace", () => {
+    it("should normalize brightness before comparing", async () => {
+      const base = await createImage(20, 20, [50, 50, 50], [
+        { x: 0, y: 0, width: 10, height: 20, color: [100, 100, 100] },
+      ]);
+      const actual = await createImage(20, 20, [100, 100, 100], [
+        { x: 0, y: 0, width: 10, height: 20, color: [200, 200, 200] },
+      ]);
+
+      const plain = await POST(
+        createRequest({ baseImageSource: base, actualImageSource: actual })
+      );
+      const normalized = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: {
+            colorSpace: { normalize: true },
+            output: { includeMetadata: true },
+          },
+        })
+      );
+      const normalizedData = await normalized.json();
+
+      expect((await plain.json()).differencePercentage).toBe(100);
+      expect(normalizedData.differencePercentage).toBe(0);
+      expect(normalizedData.metadata.comparison.colorTransforms).toEqual(["normalize"]);
+    });
+
+    it("should record grayscale and conversion transforms", async () => {
+      const image = await createImage(10, 10, [255, 0, 0]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: {
+            colorSpace: { grayscale: true, convert: "lab" },
+            output: { includeMetadata: true },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.differencePercentage).toBe(0);
+      expect(data.metadata.comparison.colorTransforms).toEqual([
+        "convert:lab",
+        "grayscale",
+      ]);
+    });
+
+    it("should return 400 for an unknown color space", async () => {
+      const image = await createImage(10, 10, [255, 0, 0]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { colorSpace: { convert: "hsv" } },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("colorSpace.convert");
+    });
+  });
+
+  describe("resize", () => {
+    const striped = (height: number) =>
+      createImage(20, height, [255, 255, 255], [
+        { x: 0, y: 5, width: 20, height: 2, color: [0, 0, 0] },
+      ]);
+
+    it("should pad the smaller image with the background color", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await striped(20),
+          actualImageSource: await striped(24),
+          options: { resize: { strategy: "pad", background: [255, 255, 255] } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.differencePercentage).toBe(0);
+      expect(data.resize).toMatchObject({ strategy: "pad", width: 20, height: 24 });
+      expect(data.resize.base.padding).toEqual({ top: 0, right: 0, bottom: 4, left: 0 });
+      expect(data.resize.actual.padding).toBeNull();
+    });
+
+    it("should crop both images to their intersection", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await striped(20),
+          actualImageSource: await striped(24),
+          options: { resize: { strategy: "crop" } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.differencePercentage).toBe(0);
+      expect(data.resize).toMatchObject({ strategy: "crop", width: 20, height: 20 });
+      expect(data.resize.actual.crop).toEqual({ left: 0, top: 0, width: 20, height: 20 });
+    });
+
+    it("should use pad when only maintainAspectRatio is set", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await striped(20),
+          actualImageSource: await striped(24),
+          options: { resize: { maintainAspectRatio: true } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.resize.strategy).toBe("pad");
+    });
+
+    it("should center-crop with cover", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await createImage(40, 20, [255, 255, 255]),
+          actualImageSource: await createImage(20, 20, [255, 255, 255]),
+          options: { resize: { strategy: "cover", width: 20, height: 20 } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.resize.base).toMatchObject({
+        scaledWidth: 40,
+        scaledHeight: 20,
+        crop: { left: 10, top: 0, width: 20, height: 20 },
+        padding: null,
+      });
+    });
+
+    it("should apply a forced size to images that already match", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await createImage(40, 40, [255, 255, 255]),
+          actualImageSource: await createImage(40, 40, [255, 255, 255]),
+          options: { resize: { width: 20, height: 20 }, output: { includeMetadata: true } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.resize).toMatchObject({ strategy: "fill", width: 20, height: 20 });
+      expect(data.metadata.comparison.totalPixels).toBe(400);
+    });
+
+    it("should return 400 for an unknown strategy", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await striped(20),
+          actualImageSource: await striped(24),
+          options: { resize: { strategy: "squash" } },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("resize.strategy");
+    });
+  });
+
+  describe("performance.timeout", () => {
+    it("should abort a stalled fetch and return 504 with the stage", async () => {
+      vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+      let aborted = false;
+      const server = createServer((req) => {
+        req.on("close", () => {
+          aborted = true;
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        const response = await POST(
+          createRequest({
+            baseImageSource: `http://127.0.0.1:${port}/base.png`,
+            actualImageSource: await createImage(10, 10, [255, 255, 255]),
+            options: { performance: { timeout: 100 } },
+          })
+        );
+        const data = await response.json();
+
+        expect(response.status).toBe(504);
+        expect(data.code).toBe("TIMEOUT");
+        expect(data.retryable).toBe(true);
+        expect(data.timeout).toMatchObject({ stage: "fetch", limit: 100 });
+        expect(data.error).toContain("fetch");
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(aborted).toBe(true);
+      } finally {
+        vi.unstubAllEnvs();
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it.each([
+      [{ performance: { timeout: -1 } }, "/options/performance/timeout"],
+      // Over setTimeout's limit, which would fire immediately
+      [{ performance: { timeout: 3000000000 } }, "/options/performance/timeout"],
+      [{ fetch: { timeout: 3000000000 } }, "/options/fetch/timeout"],
+    ])("should return 400 for the invalid timeout %o", async (options, path) => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({ baseImageSource: image, actualImageSource: image, options })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain("timeout");
+      expect(data.errors[0].path).toBe(path);
+    });
+  });
+
+  describe("performance.earlyExit", () => {
+    it("should stop scanning once the threshold can no longer be met", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await createImage(256, 1024, [255, 255, 255]),
+          actualImageSource: await createImage(256, 1024, [0, 0, 0]),
+          threshold: 10,
+          options: { performance: { earlyExit: true } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.status).toBe("Failed");
+      expect(data.partial).toBe(true);
+      expect(data.differencePercentage).toBe(25);
+      expect(data.diffImageUrl).toBeNull();
+    });
+
+    it("should scan fully when the diff image is explicitly requested", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await createImage(256, 1024, [255, 255, 255]),
+          actualImageSource: await createImage(256, 1024, [0, 0, 0]),
+          threshold: 10,
+          options: {
+            performance: { earlyExit: true },
+            output: { includeDiffImage: true },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.partial).toBe(false);
+      expect(data.differencePercentage).toBe(100);
+      expect(data.diffImageUrl).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it("should return an exact result when the threshold holds", async () => {
+      const image = await createImage(64, 64, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { performance: { earlyExit: true } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.status).toBe("Passed");
+      expect(data.partial).toBe(false);
+      expect(data.differencePercentage).toBe(0);
+    });
+  });
+
+  describe("performance.maxDimension", () => {
+    it("should downscale large images and map bounds back to original coordinates", async () => {
+      const base = await createImage(200, 100, [255, 255, 255]);
+      const actual = await createImage(200, 100, [255, 255, 255], [
+        { x: 100, y: 50, width: 20, height: 20, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: {
+            performance: { maxDimension: 100 },
+            ignore: { regions: [{ x: 0, y: 0, width: 40, height: 40 }] },
+            pixelmatch: { diffMask: true },
+            output: { includeDiffBounds: true, includeMetadata: true },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.scaleFactor).toBe(0.5);
+      expect(data.metadata.baseImage).toMatchObject({ width: 200, height: 100 });
+      expect(data.metadata.comparison.totalPixels).toBe(100 * 50 - 400);
+      expect(data.metadata.comparison.ignoredRegionPixels).toBe(400);
+      expect(data.diffBounds).toMatchObject({ left: 100, top: 50, width: 20, height: 20 });
+    });
+
+    it("should check regions against the original size when downscaling rounds it", async () => {
+      // Downscaled to 100x33, which maps back to 300x99
+      const image = await createImage(300, 100, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: {
+            performance: { maxDimension: 100 },
+            ignore: { regions: [{ x: 0, y: 95, width: 10, height: 5 }] },
+          },
+        })
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should not report a scale factor for images within the limit", async () => {
+      const image = await createImage(50, 50, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({ baseImageSource: image, actualImageSource: image })
+      );
+      const data = await response.json();
+
+      expect(data.scaleFactor).toBeUndefined();
+    });
+  });
+
+  describe("algorithm: ssim", () => {
+    const checkerboard = (size: number) => {
+      const cells = 64 / size;
+      const squares = [];
+      for (let row = 0; row < cells; row++) {
+        for (let col = 0; col < cells; col++) {
+          if ((row + col) % 2) {
+            squares.push({ x: col * size, y: row * size, width: size, height: size, color: [0, 0, 0] as [number, number, number] });
+          }
+        }
+      }
+      return createImage(64, 64, [255, 255, 255], squares);
+    };
+
+    it("should pass identical images with an SSIM index of 1", async () => {
+      const image = await checkerboard(8);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { algorithm: "ssim", output: { includeMetadata: true } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.status).toBe("Passed");
+      expect(data.ssim).toEqual({ index: 1, threshold: 0.95, windowSize: 8 });
+      expect(data.differencePercentage).toBe(0);
+      expect(data.diffImageUrl).toBeNull();
+      expect(data.metadata.comparison.algorithm).toBe("ssim");
+    });
+
+    it("should fail structurally different images and return a heatmap", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await checkerboard(8),
+          actualImageSource: await checkerboard(4),
+          threshold: 100,
+          options: { algorithm: "ssim", ssim: { threshold: 0.9 } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.status).toBe("Failed");
+      expect(data.ssim.index).toBeLessThan(0.9);
+      expect(data.differencePercentage).toBeCloseTo((1 - data.ssim.index) * 100);
+      expect(data.diffImageUrl).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it("should return 400 for an unknown algorithm", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { algorithm: "mse" },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("algorithm");
+    });
+  });
+
+  describe("algorithm: ciede2000", () => {
+    it("should count pixels above the delta E tolerance", async () => {
+      const base = await createImage(20, 20, [200, 200, 200]);
+      const actual = await createImage(20, 20, [200, 200, 200], [
+        { x: 0, y: 0, width: 10, height: 20, color: [201, 200, 200] },
+        { x: 10, y: 0, width: 5, height: 20, color: [0, 0, 255] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          threshold: 10,
+          options: {
+            algorithm: "ciede2000",
+            output: { includeMetadata: true, includeDiffBounds: true },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.metadata.comparison.algorithm).toBe("ciede2000");
+      expect(data.metadata.comparison.diffPixels).toBe(100);
+      expect(data.differencePercentage).toBe(25);
+      expect(data.status).toBe("Failed");
+      expect(data.deltaE.tolerance).toBe(2.3);
+      expect(data.deltaE.max).toBeGreaterThan(40);
+      expect(data.deltaE.mean).toBeGreaterThan(0);
+      expect(data.diffBounds).toMatchObject({ left: 10, top: 0, width: 5, height: 20 });
+      expect(data.diffImageUrl).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it("should honor a custom tolerance", async () => {
+      const base = await createImage(10, 10, [200, 200, 200]);
+      const actual = await createImage(10, 10, [210, 200, 200]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { algorithm: "ciede2000", deltaE: { tolerance: 10 } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.differencePercentage).toBe(0);
+      expect(data.status).toBe("Passed");
+      expect(data.diffImageUrl).toBeNull();
+    });
+  });
+
+  describe("algorithm: hash", () => {
+    it("should report Hamming distance and similarity without a diff image", async () => {
+      const base = await createImage(64, 64, [255, 255, 255], [
+        { x: 0, y: 0, width: 32, height: 64, color: [0, 0, 0] },
+      ]);
+      const actual = await createImage(64, 64, [255, 255, 255], [
+        { x: 32, y: 0, width: 32, height: 64, color: [0, 0, 0] },
+      ]);
+
+      const same = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: base,
+          options: { algorithm: "hash", output: { includeMetadata: true } },
+        })
+      );
+      const different = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { algorithm: "hash", hash: { type: "aHash", maxDistance: 10 } },
+        })
+      );
+      const sameData = await same.json();
+      const differentData = await different.json();
+
+      expect(sameData.status).toBe("Passed");
+      expect(sameData.hash).toMatchObject({ type: "pHash", distance: 0, similarity: 1, maxDistance: 5 });
+      expect(sameData.diffImageUrl).toBeNull();
+      expect(sameData.metadata.comparison).toMatchObject({ algorithm: "hash", totalPixels: 64 });
+
+      expect(differentData.status).toBe("Failed");
+      expect(differentData.hash.distance).toBe(64);
+      expect(differentData.hash.similarity).toBe(0);
+      expect(differentData.differencePercentage).toBe(100);
+    });
+
+    it("should return 400 for an unknown hash type", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { algorithm: "hash", hash: { type: "wHash" } },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("options.hash");
+    });
+  });
+
+  describe("diffRegions", () => {
+    it("should report separate regions for changes in opposite corners", async () => {
+      const base = await createImage(100, 100, [255, 255, 255]);
+      const actual = await createImage(100, 100, [255, 255, 255], [
+        { x: 0, y: 0, width: 5, height: 5, color: [0, 0, 0] },
+        { x: 90, y: 90, width: 10, height: 10, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { output: { includeDiffBounds: true } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.diffBounds).toMatchObject({ left: 0, top: 0, right: 99, bottom: 99 });
+      expect(data.diffRegions).toEqual([
+        {
+          bounds: { left: 90, top: 90, right: 99, bottom: 99, width: 10, height: 10 },
+          pixels: 100,
+          share: 0.8,
+        },
+        {
+          bounds: { left: 0, top: 0, right: 4, bottom: 4, width: 5, height: 5 },
+          pixels: 25,
+          share: 0.2,
+        },
+      ]);
+    });
+
+    it("should locate differences when diffColor matches unchanged pixels", async () => {
+      const base = await createImage(50, 50, [128, 128, 128]);
+      const actual = await createImage(50, 50, [128, 128, 128], [
+        { x: 10, y: 20, width: 2, height: 2, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: {
+            pixelmatch: { diffColor: [128, 128, 128], alpha: 1 },
+            output: { includeDiffBounds: true },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.diffPixels).toBe(4);
+      expect(data.diffBounds).toMatchObject({ left: 10, top: 20, right: 11, bottom: 21 });
+      expect(data.diffRegions).toHaveLength(1);
+      expect(data.diffRegions[0].pixels).toBe(4);
+    });
+
+    it("should ignore the faded background when locating differences", async () => {
+      const base = await createImage(60, 60, [255, 255, 255], [
+        { x: 0, y: 0, width: 60, height: 20, color: [40, 40, 40] },
+      ]);
+      const actual = await createImage(60, 60, [255, 255, 255], [
+        { x: 0, y: 0, width: 60, height: 20, color: [40, 40, 40] },
+        { x: 30, y: 40, width: 5, height: 5, color: [0, 0, 255] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { output: { includeDiffBounds: true } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.diffBounds).toMatchObject({ left: 30, top: 40, width: 5, height: 5 });
+      expect(data.diffRegions).toHaveLength(1);
+    });
+
+    it("should apply mergeDistance and minPixels", async () => {
+      const base = await createImage(100, 100, [255, 255, 255]);
+      const actual = await createImage(100, 100, [255, 255, 255], [
+        { x: 10, y: 10, width: 5, height: 5, color: [0, 0, 0] },
+        { x: 20, y: 10, width: 5, height: 5, color: [0, 0, 0] },
+        { x: 80, y: 80, width: 1, height: 1, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { regions: { mergeDistance: 5, minPixels: 2 } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.diffRegions).toHaveLength(1);
+      expect(data.diffRegions[0]).toMatchObject({
+        bounds: { left: 10, top: 10, right: 24, bottom: 14 },
+        pixels: 50,
+      });
+      expect(data.diffRegions[0].share).toBeCloseTo(50 / 51);
+    });
+
+    it("should return an empty list for identical images", async () => {
+      const image = await createImage(20, 20, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({ baseImageSource: image, actualImageSource: image })
+      );
+
+      expect((await response.json()).diffRegions).toEqual([]);
+    });
+
+    it("should return 400 for a negative mergeDistance", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { regions: { mergeDistance: -1 } },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("options.regions");
+    });
+  });
+
+  describe("regions fail rules", () => {
+    it("should fail on a large region even when the percentage passes", async () => {
+      const base = await createImage(400, 400, [255, 255, 255], [
+        { x: 100, y: 100, width: 40, height: 40, color: [0, 120, 255] },
+      ]);
+      const actual = await createImage(400, 400, [255, 255, 255]);
+
+      const percentageOnly = await POST(
+        createRequest({ baseImageSource: base, actualImageSource: actual, threshold: 5 })
+      );
+      const withLimit = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          threshold: 5,
+          options: { regions: { maxPixels: 1000, maxWidth: 50 } },
+        })
+      );
+      const percentageData = await percentageOnly.json();
+      const limitData = await withLimit.json();
+
+      expect(percentageData.status).toBe("Passed");
+      expect(percentageData.failedRules).toEqual([]);
+
+      expect(limitData.differencePercentage).toBeCloseTo(1);
+      expect(limitData.status).toBe("Failed");
+      expect(limitData.failedRules).toEqual(["regions.maxPixels"]);
+    });
+
+    it("should report every rule that tripped", async () => {
+      const base = await createImage(100, 100, [255, 255, 255]);
+      const actual = await createImage(100, 100, [255, 255, 255], [
+        { x: 0, y: 10, width: 60, height: 2, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          threshold: 0.5,
+          options: { regions: { maxWidth: 50, maxHeight: 5 } },
+        })
+      );
+      const data = await response.json();
+
+      expect(data.status).toBe("Failed");
+      expect(data.failedRules).toEqual(["threshold", "regions.maxWidth"]);
+    });
+
+    it("should return 400 for a non-positive maxPixels", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { regions: { maxPixels: 0 } },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("options.regions");
+    });
+  });
+
+  describe("thresholdType", () => {
+    it("should compare the absolute diffPixels with thresholdType 'pixels'", async () => {
+      const base = await createImage(100, 100, [255, 255, 255]);
+      const actual = await createImage(100, 100, [255, 255, 255], [
+        { x: 10, y: 10, width: 5, height: 5, color: [0, 0, 0] },
+      ]);
+
+      const within = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          threshold: 25,
+          thresholdType: "pixels",
+        })
+      );
+      const over = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          threshold: 24,
+          thresholdType: "pixels",
+        })
+      );
+      const withinData = await within.json();
+      const overData = await over.json();
+
+      expect(withinData.status).toBe("Passed");
+      expect(withinData.diffPixels).toBe(25);
+      expect(overData.status).toBe("Failed");
+      expect(overData.failedRules).toEqual(["threshold"]);
+    });
+
+    it("should accept pixel thresholds above 100", async () => {
+      const base = await createImage(100, 100, [255, 255, 255]);
+      const actual = await createImage(100, 100, [255, 255, 255], [
+        { x: 0, y: 0, width: 20, height: 20, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          threshold: 500,
+          thresholdType: "pixels",
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.status).toBe("Passed");
+      expect(data.differencePercentage).toBeCloseTo(4);
+    });
+
+    it("should always include diffPixels", async () => {
+      const image = await createImage(20, 20, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({ baseImageSource: image, actualImageSource: image })
+      );
+      const data = await response.json();
+
+      expect(data.diffPixels).toBe(0);
+      expect(data.metadata).toBeUndefined();
+    });
+
+    it.each([
+      [{ threshold: 1.5, thresholdType: "pixels" }, "integer"],
+      [{ threshold: -1, thresholdType: "pixels" }, "integer"],
+      [{ threshold: 5, thresholdType: "ratio" }, "thresholdType"],
+    ])("should return 400 for %o", async (body, message) => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({ baseImageSource: image, actualImageSource: image, ...body })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain(message);
+    });
+  });
+
+  describe("warnThreshold", () => {
+    const compareWithWarning = async (changedPixels: number, body: any) => {
+      const base = await createImage(100, 100, [255, 255, 255]);
+      const actual = await createImage(100, 100, [255, 255, 255], [
+        { x: 0, y: 0, width: changedPixels, height: 1, color: [0, 0, 0] },
+      ]);
+      const response = await POST(
+        createRequest({ baseImageSource: base, actualImageSource: actual, ...body })
+      );
+      return response.json();
+    };
+
+    it("should return Passed, Warning or Failed around the two thresholds", async () => {
+      const body = { threshold: 0.5, warnThreshold: 0.2 };
+
+      expect((await compareWithWarning(10, body)).status).toBe("Passed");
+      expect((await compareWithWarning(30, body)).status).toBe("Warning");
+
+      const failed = await compareWithWarning(60, body);
+      expect(failed.status).toBe("Failed");
+      expect(failed.failedRules).toEqual(["threshold"]);
+    });
+
+    it("should use the pixel unit with thresholdType 'pixels'", async () => {
+      const data = await compareWithWarning(30, {
+        threshold: 50,
+        warnThreshold: 20,
+        thresholdType: "pixels",
+      });
+
+      expect(data.status).toBe("Warning");
+      expect(data.failedRules).toEqual([]);
+    });
+
+    it("should return 400 when warnThreshold exceeds threshold", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          threshold: 1,
+          warnThreshold: 2,
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("warnThreshold");
+    });
+  });
+
+  describe("output.mode: heatmap", () => {
+    it("should color slight and complete changes differently and return the legend", async () => {
+      const base = await createImage(40, 20, [200, 200, 200]);
+      const actual = await createImage(40, 20, [200, 200, 200], [
+        { x: 0, y: 0, width: 10, height: 10, color: [170, 170, 170] },
+        { x: 20, y: 0, width: 10, height: 10, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { output: { mode: "heatmap", format: "webp" }, quality: { webp: 100 } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.diffImageUrl).toMatch(/^data:image\/webp;base64,/);
+      expect(data.heatmap).toMatchObject({
+        metric: "yiq",
+        scale: { min: 0, max: 1 },
+        threshold: 0.1,
+      });
+      expect(data.heatmap.maxDistance).toBeGreaterThan(0.7);
+      expect(data.heatmap.legend[0]).toEqual({ value: 0, color: [0, 0, 255] });
+
+      const pngResponse = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { output: { mode: "heatmap" } },
+        })
+      );
+      const pngData = await pngResponse.json();
+      const diff = await sharp(Buffer.from(pngData.diffImageUrl.split(",")[1], "base64"))
+        .raw()
+        .toBuffer();
+      const at = (x: number, y: number) =>
+        Array.from(diff.subarray((y * 40 + x) * 4, (y * 40 + x) * 4 + 3));
+
+      const [slightR, , slightB] = at(5, 5);
+      const [completeR, , completeB] = at(25, 5);
+      expect(slightB).toBeGreaterThan(slightR);
+      expect(completeR).toBeGreaterThan(completeB);
+      // Unchanged pixels are the base luminance faded to 10%
+      const faded = Math.round(255 + (200 - 255) * 0.1);
+      expect(at(35, 15)).toEqual([faded, faded, faded]);
+    });
+
+    it("should return 400 for an unknown mode", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { output: { mode: "overlay" } },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("options.output.mode");
+    });
+  });
+
+  describe("output.composite", () => {
+    const decode = (dataUri: string) =>
+      sharp(Buffer.from(dataUri.split(",")[1], "base64")).raw().toBuffer({ resolveWithObject: true });
+
+    it("should place base, actual and diff side by side under labels", async () => {
+      const base = await createImage(40, 30, [255, 255, 255]);
+      const actual = await createImage(40, 30, [255, 255, 255], [
+        { x: 10, y: 10, width: 10, height: 10, color: [0, 0, 255] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { output: { composite: true } },
+        })
+      );
+      const data = await response.json();
+      const { data: pixels, info } = await decode(data.compositeImageUrl);
+      const at = (x: number, y: number) => {
+        const idx = (y * info.width + x) * info.channels;
+        return Array.from(pixels.subarray(idx, idx + 3));
+      };
+
+      expect(response.status).toBe(200);
+      expect(data.diffImageUrl).toMatch(/^data:image\/png;base64,/);
+      expect(info.width).toBe(3 * 40 + 2 * 16);
+      expect(info.height).toBe(28 + 30);
+      // Actual panel shows the blue square, diff panel the pixelmatch highlight
+      expect(at(56 + 15, 28 + 15)).toEqual([0, 0, 255]);
+      expect(at(112 + 15, 28 + 15)).toEqual([255, 0, 0]);
+      expect(at(40 + 8, 40)).toEqual([255, 255, 255]);
+    });
+
+    it("should stack panels vertically without labels and outline regions", async () => {
+      const base = await createImage(40, 30, [255, 255, 255]);
+      const actual = await createImage(40, 30, [255, 255, 255], [
+        { x: 10, y: 10, width: 10, height: 10, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: {
+            output: {
+              format: "jpeg",
+              composite: { layout: "vertical", labels: false, regions: true },
+            },
+          },
+        })
+      );
+      const data = await response.json();
+      expect(data.compositeImageUrl).toMatch(/^data:image\/jpeg;base64,/);
+
+      const png = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { output: { composite: { layout: "vertical", labels: false, regions: true } } },
+        })
+      );
+      const { data: pixels, info } = await decode((await png.json()).compositeImageUrl);
+
+      expect(info.width).toBe(40);
+      expect(info.height).toBe(3 * 30 + 2 * 16);
+      // Region outline on the base panel, which has no change of its own
+      const idx = (10 * info.width + 15) * info.channels;
+      expect(pixels[idx]).toBeGreaterThan(200);
+      expect(pixels[idx + 1]).toBeLessThan(100);
+      expect(pixels[idx + 2]).toBeGreaterThan(200);
+    });
+
+    it("should return 400 for an unknown layout", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { output: { composite: { layout: "diagonal" } } },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("options.output.composite");
+    });
+  });
+
+  describe("output.animated", () => {
+    const readAnimation = (dataUri: string) =>
+      sharp(Buffer.from(dataUri.split(",")[1], "base64"), { animated: true }).metadata();
+
+    it("should return an animated WebP flicker of base and actual as diffImageUrl", async () => {
+      const base = await createImage(40, 30, [255, 255, 255]);
+      const actual = await createImage(40, 30, [255, 255, 255], [
+        { x: 10, y: 10, width: 10, height: 5, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: { output: { animated: true } },
+        })
+      );
+      const data = await response.json();
+      const metadata = await readAnimation(data.diffImageUrl);
+
+      expect(response.status).toBe(200);
+      expect(data.diffImageUrl).toMatch(/^data:image\/webp;base64,/);
+      expect(metadata.pages).toBe(2);
+      expect(metadata.delay).toEqual([500, 500]);
+      expect(metadata.width).toBe(40);
+      expect(metadata.pageHeight).toBe(30);
+    });
+
+    it("should add a diff frame, crop to the diff bounds and honour the delay", async () => {
+      const base = await createImage(40, 30, [255, 255, 255]);
+      const actual = await createImage(40, 30, [255, 255, 255], [
+        { x: 10, y: 10, width: 10, height: 5, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: base,
+          actualImageSource: actual,
+          options: {
+            output: { animated: { format: "gif", delay: 300, includeDiff: true, crop: true } },
+          },
+        })
+      );
+      const data = await response.json();
+      const metadata = await readAnimation(data.diffImageUrl);
+
+      expect(data.diffImageUrl).toMatch(/^data:image\/gif;base64,/);
+      expect(metadata.format).toBe("gif");
+      expect(metadata.pages).toBe(3);
+      expect(metadata.delay).toEqual([300, 300, 300]);
+      expect(metadata.width).toBe(10);
+      expect(metadata.pageHeight).toBe(5);
+    });
+
+    it("should return 400 for an unsupported animation format", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { output: { animated: { format: "apng" } } },
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain("options.output.animated");
+    });
+  });
+
+  describe("quality", () => {
+    it("should honor PNG compression level 0", async () => {
+      const base = await createImage(40, 40, [255, 255, 255]);
+      const actual = await createImage(40, 40, [255, 255, 255], [
+        { x: 0, y: 0, width: 20, height: 20, color: [0, 0, 0] },
+      ]);
+      const diffLength = async (quality?: { png: number }) => {
+        const response = await POST(
+          createRequest({ baseImageSource: base, actualImageSource: actual, options: { quality } })
+        );
+        return (await response.json()).diffImageUrl.length;
+      };
+
+      // Level 0 stores the pixels uncompressed
+      expect(await diffLength({ png: 0 })).toBeGreaterThan(await diffLength());
+    });
+  });
+
+  describe("multipart/form-data", () => {
+    const toBlob = (dataUri: string) =>
+      new Blob([Buffer.from(dataUri.split(",")[1], "base64")], { type: "image/png" });
+
+    const createFormRequest = (fields: Record<string, string | Blob>) => {
+      const formData = new FormData();
+      for (const [name, value] of Object.entries(fields)) {
+        formData.append(name, value);
+      }
+      return new NextRequest("http://localhost/api/compare-images", {
+        method: "POST",
+        body: formData,
+      });
+    };
+
+    it("should compare uploaded files like data URIs", async () => {
+      const base = await createImage(20, 20, [255, 255, 255]);
+      const actual = await createImage(20, 20, [255, 255, 255], [
+        { x: 0, y: 0, width: 10, height: 4, color: [0, 0, 0] },
+      ]);
+
+      const jsonData = await (
+        await POST(createRequest({ baseImageSource: base, actualImageSource: actual, threshold: 5 }))
+      ).json();
+      const response = await POST(
+        createFormRequest({ baseImage: toBlob(base), actualImage: toBlob(actual), threshold: "5" })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.status).toBe("Failed");
+      expect(data.differencePercentage).toBe(jsonData.differencePercentage);
+      expect(data.diffPixels).toBe(40);
+    });
+
+    it("should not re-encode uploads whose bytes are under the compression limit", async () => {
+      // Noise does not compress: about 2.5MB of PNG, 3.4MB as a data URI
+      const width = 1000;
+      const height = 850;
+      const pixels = Buffer.alloc(width * height * 3);
+      for (let i = 0; i < pixels.length; i++) pixels[i] = (i * 7919 + (i >> 5) * 104729) % 251;
+      const png = await sharp(pixels, { raw: { width, height, channels: 3 } })
+        .png({ compressionLevel: 0 })
+        .toBuffer();
+      expect(png.length).toBeLessThan(3 * 1024 * 1024);
+      expect(Math.ceil(png.length / 3) * 4).toBeGreaterThan(3 * 1024 * 1024);
+
+      const response = await POST(
+        createFormRequest({
+          baseImage: new Blob([new Uint8Array(png)], { type: "image/png" }),
+          actualImage: new Blob([new Uint8Array(png)], { type: "image/png" }),
+          options: JSON.stringify({ output: { includeOriginals: true } }),
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.processedImages.baseImageUrl).toBe(`data:image/png;base64,${png.toString("base64")}`);
+    });
+
+    it("should apply the options part and accept URL text fields", async () => {
+      const base = await createImage(20, 20, [255, 255, 255]);
+      const actual = await createImage(20, 20, [255, 255, 255], [
+        { x: 0, y: 0, width: 10, height: 4, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createFormRequest({
+          baseImageSource: base,
+          actualImage: toBlob(actual),
+          options: new Blob(
+            [JSON.stringify({ ignore: { regions: [{ x: 0, y: 0, width: 10, height: 4 }] } })],
+            { type: "application/json" }
+          ),
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.differencePercentage).toBe(0);
+    });
+
+    it("should return the same validation errors as JSON requests", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const [jsonMissing, formMissing] = await Promise.all([
+        POST(createRequest({ baseImageSource: image })),
+        POST(createFormRequest({ baseImage: toBlob(image) })),
+      ]);
+      expect(formMissing.status).toBe(jsonMissing.status);
+      expect((await formMissing.json()).error).toBe((await jsonMissing.json()).error);
+
+      const [jsonThreshold, formThreshold] = await Promise.all([
+        POST(createRequest({ baseImageSource: image, actualImageSource: image, threshold: "abc" })),
+        POST(createFormRequest({ baseImage: toBlob(image), actualImage: toBlob(image), threshold: "abc" })),
+      ]);
+      expect(formThreshold.status).toBe(400);
+      expect((await formThreshold.json()).error).toBe((await jsonThreshold.json()).error);
+    });
+
+    it("should return 400 for an options part that is not valid JSON", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createFormRequest({ baseImage: toBlob(image), actualImage: toBlob(image), options: "{oops" })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Invalid JSON in the options form field.");
+    });
+  });
+
+  describe("Accept: image/*", () => {
+    const createImageRequest = (body: any, accept: string) =>
+      new NextRequest("http://localhost/api/compare-images", {
+        method: "POST",
+        headers: { "content-type": "application/json", accept },
+        body: JSON.stringify(body),
+      });
+
+    it("should return the diff image bytes with results in headers", async () => {
+      const base = await createImage(40, 30, [255, 255, 255]);
+      const actual = await createImage(40, 30, [255, 255, 255], [
+        { x: 10, y: 5, width: 8, height: 4, color: [0, 0, 0] },
+      ]);
+
+      const response = await POST(
+        createImageRequest({ baseImageSource: base, actualImageSource: actual, threshold: 1 }, "image/webp")
+      );
+      const metadata = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("image/webp");
+      expect(metadata.format).toBe("webp");
+      expect(metadata.width).toBe(40);
+      expect(response.headers.get("x-status")).toBe("Failed");
+      expect(Number(response.headers.get("x-difference-percentage"))).toBeCloseTo((32 / 1200) * 100);
+      expect(response.headers.get("x-diff-pixels")).toBe("32");
+      expect(response.headers.get("x-failed-rules")).toBe("threshold");
+      expect(response.headers.get("x-diff-bounds")).toBe("10,5,8,4");
+      expect(response.headers.get("access-control-expose-headers")).toContain("X-Diff-Bounds");
+    });
+
+    it("should return an image for identical images, even with earlyExit", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createImageRequest(
+          {
+            baseImageSource: image,
+            actualImageSource: image,
+            options: { performance: { earlyExit: true } },
+          },
+          "image/jpeg"
+        )
+      );
+      const metadata = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+
+      expect(response.headers.get("content-type")).toBe("image/jpeg");
+      expect(metadata.format).toBe("jpeg");
+      expect(response.headers.get("x-status")).toBe("Passed");
+      expect(response.headers.get("x-failed-rules")).toBe("");
+      expect(response.headers.has("x-diff-bounds")).toBe(false);
+    });
+
+    it("should keep JSON unless an image type is preferred", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+      const body = { baseImageSource: image, actualImageSource: image };
+
+      for (const accept of ["*/*", "image/*", "application/json, image/png;q=0.5"]) {
+        const response = await POST(createImageRequest(body, accept));
+        expect(response.headers.get("content-type")).toContain("application/json");
+      }
+
+      const response = await POST(createImageRequest(body, "application/json;q=0.5, image/png"));
+      expect(response.headers.get("content-type")).toBe("image/png");
+    });
+
+    it("should keep returning errors as JSON", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(createImageRequest({ baseImageSource: image }, "image/png"));
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get("content-type")).toContain("application/json");
+    });
+
+    it("should return 406 when no diff image of the accepted type can be produced", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const hashResponse = await POST(
+        createImageRequest(
+          { baseImageSource: image, actualImageSource: image, options: { algorithm: "hash" } },
+          "image/png"
+        )
+      );
+      const animatedResponse = await POST(
+        createImageRequest(
+          {
+            baseImageSource: image,
+            actualImageSource: image,
+            options: { output: { animated: { format: "gif" } } },
+          },
+          "image/webp"
+        )
+      );
+
+      expect(hashResponse.status).toBe(406);
+      expect(animatedResponse.status).toBe(406);
+      expect((await animatedResponse.json()).error).toContain("image/gif");
+    });
+  });
+
+  describe("request validation", () => {
+    it("should return every invalid field with a JSON pointer", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: {
+            pixelmatch: { threshold: 7, diffColor: [300, "a"] },
+            output: { format: "gif" },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.errors).toEqual([
+        {
+          path: "/options/pixelmatch/threshold",
+          message: "options.pixelmatch.threshold must be a number between 0 and 1.",
+        },
+        {
+          path: "/options/pixelmatch/diffColor",
+          message: "options.pixelmatch.diffColor must be an [r, g, b] array of integers between 0 and 255.",
+        },
+        {
+          path: "/options/output/format",
+          message: "options.output.format must be one of: png, jpeg, webp.",
+        },
+      ]);
+      expect(data.error).toContain("options.pixelmatch.threshold");
+    });
+
+    it("should report missing sources per field", async () => {
+      const response = await POST(createRequest({ threshold: 1 }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.errors.map((issue: { path: string }) => issue.path)).toEqual([
+        "/baseImageSource",
+        "/actualImageSource",
+      ]);
+    });
+
+    it("should warn about unknown fields and still compare", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { output: { fromat: "jpeg" } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.status).toBe("Passed");
+      expect(data.warnings).toEqual([
+        {
+          path: "/options/output/fromat",
+          message: 'Unknown field options.output.fromat is ignored. Did you mean "format"?',
+        },
+      ]);
+    });
+
+    it("should include errors for checks that need the image size", async () => {
+      const image = await createImage(20, 20, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: { ignore: { regions: [{ x: 10, y: 10, width: 20, height: 5 }] } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.errors).toHaveLength(1);
+      expect(data.errors[0].path).toBe("/options/ignore/regions/0");
+    });
+  });
+
+  describe("error codes", () => {
+    const createRawRequest = (body: string, headers: Record<string, string> = {}) =>
+      new NextRequest("http://localhost/api/compare-images", {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body,
+      });
+
+    it.each([
+      ["INVALID_REQUEST", 400, false, { threshold: 150 }],
+      ["DECODE_FAILED", 400, false, { baseImageSource: "data:image/png;base64,AAAA" }],
+      [
+        "DECODE_FAILED",
+        400,
+        false,
+        { baseImageSource: "data:image/png;base64,AAAA", options: { algorithm: "hash" } },
+      ],
+      ["SOURCE_URL_INVALID", 400, false, { baseImageSource: "not a url" }],
+      ["SOURCE_PROTOCOL_NOT_ALLOWED", 400, false, { baseImageSource: "file:///etc/passwd" }],
+      ["SOURCE_ADDRESS_BLOCKED", 403, false, { baseImageSource: "http://169.254.169.254/latest" }],
+    ])("should return %s", async (code, status, retryable, body) => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({ baseImageSource: image, actualImageSource: image, ...body })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(status);
+      expect(data.code).toBe(code);
+      expect(data.retryable).toBe(retryable);
+    });
+
+    it("should return SOURCE_FETCH_FAILED when the source is unreachable", async () => {
+      vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      try {
+        const response = await POST(
+          createRequest({ baseImageSource: "http://127.0.0.1:1/base.png", actualImageSource: image })
+        );
+        const data = await response.json();
+
+        expect(response.status).toBe(502);
+        expect(data.code).toBe("SOURCE_FETCH_FAILED");
+        expect(data.retryable).toBe(true);
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+
+    it("should return INVALID_JSON for a malformed body", async () => {
+      const response = await POST(createRawRequest("{oops"));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe("INVALID_JSON");
+    });
+
+    it("should return DIMENSION_MISMATCH with resize disabled", async () => {
+      const response = await POST(
+        createRequest({
+          baseImageSource: await createImage(10, 10, [255, 255, 255]),
+          actualImageSource: await createImage(12, 10, [255, 255, 255]),
+          options: { resize: { enabled: false } },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.code).toBe("DIMENSION_MISMATCH");
+      expect(data.errors[0].path).toBe("/options/resize/enabled");
+    });
+
+    it("should not set a code on success", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const data = await (
+        await POST(createRequest({ baseImageSource: image, actualImageSource: image }))
+      ).json();
+
+      expect(data.code).toBeUndefined();
+      expect(data.retryable).toBeUndefined();
+    });
+
+    it("should return an RFC 7807 problem when asked for one", async () => {
+      const response = await POST(
+        createRawRequest(JSON.stringify({ threshold: 1 }), {
+          accept: "application/problem+json, application/json",
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get("content-type")).toBe("application/problem+json");
+      expect(data).toMatchObject({
+        type: "urn:visual-image-comparer:error:invalid-request",
+        title: "Invalid request",
+        status: 400,
+        code: "INVALID_REQUEST",
+        retryable: false,
+      });
+      expect(data.detail).toContain("baseImageSource is required.");
+      expect(data.errors).toHaveLength(2);
+      expect(data.error).toBeUndefined();
+    });
+  });
+
+  describe("options.fetch", () => {
+    // Stand-in artifact server that only serves requests with the right token
+    const withArtifactServer = async (run: (url: string, authorizations: string[]) => Promise<void>) => {
+      const png = Buffer.from((await createImage(10, 10, [255, 255, 255])).split(",")[1], "base64");
+      const authorizations: string[] = [];
+      const server = createServer((req, res) => {
+        authorizations.push(req.headers.authorization ?? "");
+        if (req.headers.authorization !== "Bearer artifact-token") {
+          res.writeHead(401).end();
+          return;
+        }
+        res.writeHead(200, { "content-type": "image/png" }).end(png);
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as AddressInfo;
+      vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+
+      try {
+        await run(`http://127.0.0.1:${port}/base.png`, authorizations);
+      } finally {
+        vi.unstubAllEnvs();
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    };
+
+    it("should send options.fetch.headers with image URL requests", async () => {
+      await withArtifactServer(async (url) => {
+        const response = await POST(
+          createRequest({
+            baseImageSource: url,
+            actualImageSource: await createImage(10, 10, [255, 255, 255]),
+            options: { fetch: { headers: { Authorization: "Bearer artifact-token" } } },
+          })
+        );
+
+        expect(response.status).toBe(200);
+        expect((await response.json()).status).toBe("Passed");
+      });
+    });
+
+    it("should apply per-source headers to that source only", async () => {
+      await withArtifactServer(async (url, authorizations) => {
+        const response = await POST(
+          createRequest({
+            baseImageSource: url,
+            actualImageSource: url,
+            options: {
+              fetch: {
+                headers: { Authorization: "Bearer wrong-token" },
+                base: { headers: { Authorization: "Bearer artifact-token" } },
+              },
+            },
+          })
+        );
+
+        expect(response.status).toBe(502);
+        expect(authorizations.sort()).toEqual(["Bearer artifact-token", "Bearer wrong-token"]);
+      });
+    });
+
+    it("should not echo credentials in errors", async () => {
+      await withArtifactServer(async (url) => {
+        const response = await POST(
+          createRequest({
+            baseImageSource: url,
+            actualImageSource: url,
+            options: {
+              fetch: {
+                headers: { Authorization: "Bearer leaked-token" },
+                auth: { username: "ci", password: "leaked-password" },
+              },
+            },
+          })
+        );
+        const text = await response.text();
+
+        expect(response.status).toBe(502);
+        expect(JSON.parse(text)).toMatchObject({ code: "SOURCE_FETCH_FAILED", retryable: true });
+        expect(JSON.parse(text).error).toContain("401");
+        expect(text).not.toContain("leaked");
+      });
+    });
+
+    it("should return 400 for invalid fetch options", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({
+          baseImageSource: image,
+          actualImageSource: image,
+          options: {
+            fetch: { headers: { Authorization: 42 }, auth: { username: "ci" }, retries: 10 },
+          },
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.errors.map((issue: { path: string }) => issue.path)).toEqual([
+        "/options/fetch/headers/Authorization",
+        "/options/fetch/auth/password",
+        "/options/fetch/retries",
+      ]);
+    });
+  });
+
+  describe("baselineId", () => {
+    const withBaselineStore = async (run: (store: FileSystemBaselineStore) => Promise<void>) => {
+      const dir = await mkdtemp(path.join(tmpdir(), "baselines-"));
+      vi.stubEnv("BASELINE_STORE_DIR", dir);
+      try {
+        await run(new FileSystemBaselineStore(dir));
+      } finally {
+        vi.unstubAllEnvs();
+        await rm(dir, { recursive: true, force: true });
+      }
+    };
+
+    it("should compare against a stored baseline", async () => {
+      await withBaselineStore(async (store) => {
+        const baseline = await createImage(10, 10, [255, 255, 255]);
+        await store.put({
+          name: "home",
+          tag: "main",
+          contentType: "image/png",
+          width: 10,
+          height: 10,
+          image: Buffer.from(baseline.split(",")[1], "base64"),
+        });
+
+        const response = await POST(
+          createRequest({
+            baselineId: "home:main",
+            actualImageSource: await createImage(10, 10, [255, 255, 255], [
+              { x: 0, y: 0, width: 5, height: 2, color: [0, 0, 0] },
+            ]),
+          })
+        );
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.differencePercentage).toBe(10);
+      });
+    });
+
+    it("should decode a stored baseline as stored, however large", async () => {
+      await withBaselineStore(async (store) => {
+        // Noise does not compress: about 6.3MB of PNG, past the compression
+        // threshold and the request size limit
+        const width = 1400;
+        const height = 1500;
+        const pixels = Buffer.alloc(width * height * 3);
+        for (let i = 0; i < pixels.length; i++) pixels[i] = (i * 7919 + (i >> 5) * 104729) % 251;
+        const png = await sharp(pixels, { raw: { width, height, channels: 3 } })
+          .png({ compressionLevel: 0 })
+          .toBuffer();
+        expect(png.length).toBeGreaterThan(6 * 1024 * 1024);
+        await store.put({ name: "home", tag: "main", contentType: "image/png", width, height, image: png });
+
+        const response = await POST(
+          createRequest({
+            baselineId: "home:main",
+            actualImageSource: await createImage(10, 10, [255, 255, 255]),
+            options: { algorithm: "hash", output: { includeMetadata: true } },
+          })
+        );
+        const data = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.metadata.baseImage).toMatchObject({ width, height, size: png.length });
+      });
+    });
+
+    it("should return 404 for an unknown baseline", async () => {
+      await withBaselineStore(async () => {
+        const response = await POST(
+          createRequest({
+            baselineId: "home:missing",
+            actualImageSource: await createImage(10, 10, [255, 255, 255]),
+          })
+        );
+        const data = await response.json();
+
+        expect(response.status).toBe(404);
+        expect(data.code).toBe("BASELINE_NOT_FOUND");
+      });
+    });
+
+    it("should reject baselineId together with baseImageSource", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(
+        createRequest({ baselineId: "home:main", baseImageSource: image, actualImageSource: image })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.errors).toEqual([
+        { path: "/baselineId", message: "Provide either baseImageSource or baselineId, not both." },
+      ]);
+    });
+
+    it("should reject a malformed baselineId", async () => {
+      const image = await createImage(10, 10, [255, 255, 255]);
+
+      const response = await POST(createRequest({ baselineId: "../home", actualImageSource: image }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).errors[0].path).toBe("/baselineId");
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from "vitest";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { NextRequest } from "next/server";
+import sharp from "sharp";
+import { POST, OPTIONS } from "../route";
+
+const createPng = (changedPixels = 0) => {
+  const data = Buffer.alloc(20 * 20 * 4, 255);
+  for (let i = 0; i < changedPixels; i++) {
+    data[i * 4] = 0;
+    data[i * 4 + 1] = 0;
+    data[i * 4 + 2] = 0;
+  }
+  return sharp(data, { raw: { width: 20, height: 20, channels: 4 } }).png().toBuffer();
+};
+
+const toDataUri = (png: Buffer) => `data:image/png;base64,${png.toString("base64")}`;
+
+const createRequest = (body: any) =>
+  new NextRequest("http://localhost/api/compare-images/batch", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/compare-images/batch", () => {
+  it("should compare every pair and summarize the results", async () => {
+    const base = toDataUri(await createPng());
+    const slight = toDataUri(await createPng(4));
+    const large = toDataUri(await createPng(40));
+
+    const response = await POST(
+      createRequest({
+        threshold: 5,
+        warnThreshold: 0.5,
+        options: { output: { includeMetadata: true } },
+        pairs: [
+          { name: "same", baseImageSource: base, actualImageSource: base },
+          { name: "slight", baseImageSource: base, actualImageSource: slight },
+          { name: "large", baseImageSource: base, actualImageSource: large },
+          { name: "broken", baseImageSource: base },
+        ],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.results.map((r: any) => [r.name, r.httpStatus, r.result.status])).toEqual([
+      ["same", 200, "Passed"],
+      ["slight", 200, "Warning"],
+      ["large", 200, "Failed"],
+      ["broken", 400, null],
+    ]);
+    expect(data.results[0].result.metadata).toBeDefined();
+    expect(data.summary).toEqual({
+      total: 4,
+      passed: 1,
+      warning: 1,
+      failed: 1,
+      errored: 1,
+      worstDiff: { name: "large", differencePercentage: 10 },
+    });
+  });
+
+  it("should merge per-pair overrides over the shared options", async () => {
+    const base = toDataUri(await createPng());
+    const actual = toDataUri(await createPng(40));
+
+    const response = await POST(
+      createRequest({
+        options: { output: { includeMetadata: true, includeDiffBounds: true } },
+        pairs: [
+          { name: "defaults", baseImageSource: base, actualImageSource: actual },
+          {
+            name: "override",
+            baseImageSource: base,
+            actualImageSource: actual,
+            threshold: 20,
+            options: { output: { includeDiffBounds: false } },
+          },
+        ],
+      })
+    );
+    const [defaults, override] = (await response.json()).results;
+
+    expect(defaults.result.status).toBe("Failed");
+    expect(defaults.result.diffBounds).toBeDefined();
+    expect(override.result.status).toBe("Passed");
+    expect(override.result.diffBounds).toBeUndefined();
+    expect(override.result.metadata).toBeDefined();
+  });
+
+  it("should keep at most concurrency pairs in flight", async () => {
+    vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+    const png = await createPng();
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const server = createServer((_req, res) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        res.writeHead(200, { "content-type": "image/png" });
+        res.end(png);
+      }, 30);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    const url = `http://127.0.0.1:${port}/image.png`;
+
+    try {
+      const response = await POST(
+        createRequest({
+          concurrency: 2,
+          pairs: Array.from({ length: 6 }, (_, i) => ({
+            name: `pair-${i}`,
+            baseImageSource: url,
+            actualImageSource: url,
+          })),
+        })
+      );
+      const data = await response.json();
+
+      expect(data.summary.passed).toBe(6);
+      // Two pairs at a time, each fetching base and actual together
+      expect(maxInFlight).toBeLessThanOrEqual(4);
+      expect(maxInFlight).toBeGreaterThan(2);
+    } finally {
+      vi.unstubAllEnvs();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it.each([
+    [null, "must be an object"],
+    [[], "must be an object"],
+    [{ pairs: [] }, "non-empty"],
+    [{ pairs: [{ baseImageSource: "a", actualImageSource: "b" }] }, "name"],
+    [{ pairs: [{ name: "a" }, { name: "a" }] }, "Duplicate"],
+    [{ pairs: [{ name: "a" }], concurrency: 0 }, "concurrency"],
+  ])("should return 400 for %o", async (body, message) => {
+    const response = await POST(createRequest(body));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain(message);
+  });
+
+  it("should handle OPTIONS preflight", async () => {
+    const response = await OPTIONS();
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get("access-control-allow-methods")).toContain("POST");
+  });
+});
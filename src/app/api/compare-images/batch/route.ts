@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  POST as compareImages,
+  type CompareImagesRequestBody,
+  type CompareImagesResponseBody,
+} from "../route";
+
+type PairDefaults = Omit<CompareImagesRequestBody, "baseImageSource" | "actualImageSource">;
+
+interface BatchPair extends CompareImagesRequestBody {
+  name?: string; // Unique name used to report the pair's result
+}
+
+interface BatchRequestBody extends PairDefaults {
+  pairs?: BatchPair[];
+  concurrency?: number; // Pairs compared at the same time, default: 4
+}
+
+interface BatchPairResult {
+  name: string;
+  httpStatus: number;
+  result: CompareImagesResponseBody;
+}
+
+interface BatchResponseBody {
+  results: BatchPairResult[] | null;
+  summary: {
+    total: number;
+    passed: number;
+    warning: number;
+    failed: number;
+    errored: number;
+    worstDiff: { name: string; differencePercentage: number } | null;
+  } | null;
+  error: string | null;
+}
+
+const MAX_REQUEST_SIZE = 6 * 1024 * 1024;
+const MAX_PAIRS = 500;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": process.env.ALLOWED_ORIGIN || "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Per-pair options override the shared defaults key by key; arrays are replaced
+function mergeOptions(defaults: any, overrides: any): any {
+  if (!isPlainObject(defaults) || !isPlainObject(overrides)) {
+    return overrides === undefined ? defaults : overrides;
+  }
+  const merged: Record<string, any> = { ...defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = mergeOptions(defaults[key], value);
+  }
+  return merged;
+}
+
+// Runs fn over items with at most `limit` calls in flight, keeping input order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function validatePairs(pairs: unknown): string | null {
+  if (!Array.isArray(pairs) || pairs.length === 0) {
+    return "pairs must be a non-empty array.";
+  }
+  if (pairs.length > MAX_PAIRS) {
+    return `Too many pairs (${pairs.length}). At most ${MAX_PAIRS} pairs can be compared per batch.`;
+  }
+
+  const names = new Set<string>();
+  for (let i = 0; i < pairs.length; i++) {
+    const pair = pairs[i];
+    if (!isPlainObject(pair) || typeof pair.name !== "string" || pair.name.length === 0) {
+      return `pairs[${i}] must be an object with a non-empty name.`;
+    }
+    if (names.has(pair.name)) {
+      return `Duplicate pair name "${pair.name}". Pair names must be unique.`;
+    }
+    names.add(pair.name);
+  }
+  return null;
+}
+
+export async function POST(request: NextRequest) {
+  console.log('[API] Batch comparison request received');
+
+  try {
+    const contentLength = request.headers.get('content-length');
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
+      return NextResponse.json(
+        {
+          results: null,
+          summary: null,
+          error: `Request size (${(parseInt(contentLength) / 1024 / 1024).toFixed(2)}MB) exceeds Netlify's 6MB limit. Use image URLs or split the batch.`,
+        } as BatchResponseBody,
+        { status: 413, headers: corsHeaders }
+      );
+    }
+
+    const body: unknown = await request.json();
+    if (!isPlainObject(body)) {
+      return NextResponse.json(
+        { results: null, summary: null, error: "request body must be an object." } as BatchResponseBody,
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const { pairs, concurrency = DEFAULT_CONCURRENCY, ...defaults } = body as BatchRequestBody;
+
+    const pairsError = validatePairs(pairs);
+    if (pairsError) {
+      return NextResponse.json(
+        { results: null, summary: null, error: pairsError } as BatchResponseBody,
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+      return NextResponse.json(
+        {
+          results: null,
+          summary: null,
+          error: `Invalid concurrency value. Must be an integer between 1 and ${MAX_CONCURRENCY}.`,
+        } as BatchResponseBody,
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const compareUrl = new URL("/api/compare-images", request.url);
+    const results = await mapWithConcurrency(
+      pairs as BatchPair[],
+      concurrency,
+      async ({ name, ...pair }): Promise<BatchPairResult> => {
+        const body: CompareImagesRequestBody = {
+          ...defaults,
+          ...pair,
+          options: mergeOptions(defaults.options, pair.options),
+        };
+        // Each pair goes through the single-pair handler, with its own validation and timeout
+        const response = await compareImages(
+          new NextRequest(compareUrl, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(body),
+          })
+        );
+        return {
+          name: name as string,
+          httpStatus: response.status,
+          result: (await response.json()) as CompareImagesResponseBody,
+        };
+      }
+    );
+
+    const summary: NonNullable<BatchResponseBody["summary"]> = {
+      total: results.length,
+      passed: 0,
+      warning: 0,
+      failed: 0,
+      errored: 0,
+      worstDiff: null,
+    };
+    for (const { name, result } of results) {
+      if (result.error !== null || result.status === null) {
+        summary.errored++;
+        continue;
+      }
+      if (result.status === "Passed") summary.passed++;
+      else if (result.status === "Warning") summary.warning++;
+      else summary.failed++;
+
+      const differencePercentage = result.differencePercentage ?? 0;
+      if (!summary.worstDiff || differencePercentage > summary.worstDiff.differencePercentage) {
+        summary.worstDiff = { name, differencePercentage };
+      }
+    }
+
+    console.log(
+      '[API] Batch comparison complete. Passed:', summary.passed,
+      'Warning:', summary.warning,
+      'Failed:', summary.failed,
+      'Errored:', summary.errored
+    );
+
+    return NextResponse.json(
+      { results, summary, error: null } as BatchResponseBody,
+      { status: 200, headers: corsHeaders }
+    );
+  } catch (e: unknown) {
+    console.error('[API] Error in /api/compare-images/batch:', e);
+    let errorMessage = "An unexpected error occurred during batch comparison.";
+    let statusCode = 500;
+
+    if (e instanceof SyntaxError) {
+      errorMessage = "Invalid JSON payload provided.";
+      statusCode = 400;
+    } else if (e instanceof Error) {
+      errorMessage = e.message;
+    }
+
+    return NextResponse.json(
+      { results: null, summary: null, error: errorMessage } as BatchResponseBody,
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
@@ -1,12 +1,110 @@
 import { type NextRequest, NextResponse } from "next/server";
 import pixelmatch from "pixelmatch";
 import sharp from "sharp";
+import { computeSsim, createSsimMask, renderSsimHeatmap } from "@/lib/ssim";
+import { computeDeltaE, renderDeltaEHeatmap, rgbToLab } from "@/lib/delta-e";
+import {
+  computeImageHashes,
+  hammingDistance,
+  HASH_BITS,
+  type ImageHashes,
+  type ImageHashType,
+} from "@/lib/image-hash";
+import { base64ToBuffer, type SourceFetchOptions } from "@/lib/image-source";
+import { BASELINE_ID, baselineStoreFromEnv } from "@/lib/baseline-store";
+import { CodedError, ERROR_CODES, problemType, type ErrorCode } from "@/lib/errors";
+import { findDiffRegions, type DiffRegion } from "@/lib/diff-regions";
+import { HEATMAP_LEGEND, renderHeatmap, type HeatmapLegendStop } from "@/lib/heatmap";
+import { renderComposite, type CompositeLayout } from "@/lib/composite";
+import { renderAnimation, type AnimationFormat } from "@/lib/animation";
+import {
+  validate,
+  type Rule,
+  type ValidationIssue,
+  type ValidationResult,
+} from "@/lib/validation";
 
-interface CompareImagesRequestBody {
+type ResizeStrategy =
+  | "fit"
+  | "fill"
+  | "cover"
+  | "contain"
+  | "inside"
+  | "outside"
+  | "pad"
+  | "crop";
+
+type ComparisonAlgorithm = "pixelmatch" | "ssim" | "ciede2000" | "hash";
+
+// 'percent' compares differencePercentage (0-100), 'pixels' the absolute diffPixels
+type ThresholdType = "percent" | "pixels";
+
+type OutputMode = "diff" | "heatmap";
+
+type OutputFormat = "png" | "jpeg" | "webp";
+
+// An image as sent by the client: a source string (data URI or URL) or the
+// bytes of a multipart file upload
+type ImageInput = string | Buffer;
+
+interface MultipartUploads {
+  base?: Buffer;
+  actual?: Buffer;
+}
+
+// Fetch options that can differ between baseImageSource and actualImageSource
+type SourceCredentials = Pick<SourceFetchOptions, "headers" | "cookies" | "auth">;
+
+interface CompositeRequestOptions {
+  layout?: CompositeLayout; // Panel arrangement, default: 'horizontal'
+  labels?: boolean; // Label strip above each panel, default: true
+  regions?: boolean; // Outline diffRegions on every panel, default: false
+}
+
+interface AnimatedRequestOptions {
+  format?: AnimationFormat; // Animation format, default: 'webp'
+  delay?: number; // Milliseconds per frame, default: 500
+  includeDiff?: boolean; // Add the diff image as a third frame, default: false
+  crop?: boolean; // Crop frames to the diff bounds, default: false
+}
+
+// Pass/fail rules, named after the option that configures them
+type FailRule =
+  | "threshold"
+  | "ssim.threshold"
+  | "hash.maxDistance"
+  | "regions.maxPixels"
+  | "regions.maxWidth"
+  | "regions.maxHeight";
+
+export interface CompareImagesRequestBody {
   baseImageSource?: string;
+  baselineId?: string; // Stored baseline ("<name>:<tag>") used instead of baseImageSource
   actualImageSource?: string;
-  threshold?: number;
+  threshold?: number; // Max difference to pass, default: 0
+  thresholdType?: ThresholdType; // Unit of threshold, default: 'percent'
+  warnThreshold?: number; // Above this (same unit, <= threshold) a passing result is a 'Warning'
   options?: {
+    // Comparison algorithm, default: 'pixelmatch'
+    algorithm?: ComparisonAlgorithm;
+
+    // SSIM comparison options (algorithm: 'ssim')
+    ssim?: {
+      threshold?: number; // Minimum SSIM index to pass (0-1), default: 0.95
+      windowSize?: number; // Window edge in pixels, default: 8
+    };
+
+    // CIEDE2000 comparison options (algorithm: 'ciede2000')
+    deltaE?: {
+      tolerance?: number; // Max ΔE2000 before a pixel counts as different, default: 2.3
+    };
+
+    // Perceptual hash options (algorithm: 'hash')
+    hash?: {
+      type?: ImageHashType; // Hash used for the verdict, default: 'pHash'
+      maxDistance?: number; // Max Hamming distance (0-64) to pass, default: 5
+    };
+
     // Pixelmatch comparison options
     pixelmatch?: {
       threshold?: number; // Color difference threshold (0-1), default: 0.1
@@ -21,10 +119,11 @@ interface CompareImagesRequestBody {
     // Image preprocessing options
     resize?: {
       enabled?: boolean; // Auto-resize to match dimensions, default: true
-      strategy?: "fit" | "fill" | "cover" | "contain" | "inside" | "outside"; // Resize strategy, default: 'fill'
+      strategy?: ResizeStrategy; // Resize strategy, default: 'fill' ('pad' if maintainAspectRatio is true)
       width?: number; // Force specific width
       height?: number; // Force specific height
-      maintainAspectRatio?: boolean; // Keep aspect ratio, default: true
+      maintainAspectRatio?: boolean; // Keep aspect ratio when no strategy is given
+      background?: [number, number, number]; // Padding color RGB, default: transparent
     };
 
     // Image quality options
@@ -43,10 +142,23 @@ interface CompareImagesRequestBody {
 
     // Output options
     output?: {
-      format?: "png" | "jpeg" | "webp"; // Diff image format, default: 'png'
+      format?: OutputFormat; // Diff image format, default: 'png'
+      mode?: OutputMode; // 'heatmap' paints color distance as a gradient, default: 'diff'
+      composite?: boolean | CompositeRequestOptions; // Base, actual and diff in one image, default: false
+      animated?: boolean | AnimatedRequestOptions; // Flicker base and actual as diffImageUrl, default: false
       includeOriginals?: boolean; // Include original images in response, default: false
       includeDiffBounds?: boolean; // Include bounding box of differences, default: false
       includeMetadata?: boolean; // Include image metadata, default: false
+      includeDiffImage?: boolean; // Force a full diff image when earlyExit is set, default: false
+    };
+
+    // Clustering of differing pixels into diffRegions
+    regions?: {
+      mergeDistance?: number; // Max gap in pixels between blobs of the same region, default: 10
+      minPixels?: number; // Drop regions with fewer differing pixels, default: 1
+      maxPixels?: number; // Fail if any region has more differing pixels, default: no limit
+      maxWidth?: number; // Fail if any region is wider, default: no limit
+      maxHeight?: number; // Fail if any region is taller, default: no limit
     };
 
     // Performance options
@@ -56,6 +168,12 @@ interface CompareImagesRequestBody {
       earlyExit?: boolean; // Stop at first diff if threshold exceeded, default: false
     };
 
+    // Requests for image URLs, e.g. to an artifact server that needs a token
+    fetch?: SourceFetchOptions & {
+      base?: SourceCredentials; // Merged over the shared ones for baseImageSource
+      actual?: SourceCredentials; // Merged over the shared ones for actualImageSource
+    };
+
     // Ignore options
     ignore?: {
       antialiasing?: boolean; // Ignore anti-aliased pixels, default: false
@@ -66,17 +184,66 @@ interface CompareImagesRequestBody {
         width: number;
         height: number;
       }>;
-      colors?: Array<string>; // Ignore specific colors (hex), default: []
+      colors?: Array<string | { color: string; tolerance?: number }>; // Ignore specific colors (hex, optional per-channel tolerance 0-255), default: []
     };
   };
 }
 
-interface CompareImagesResponseBody {
+export interface CompareImagesResponseBody {
   differencePercentage: number | null;
-  status: "Passed" | "Failed" | null;
+  status: "Passed" | "Warning" | "Failed" | null;
   diffImageUrl: string | null;
   error: string | null;
 
+  // Set on error responses; retryable errors may succeed when sent again
+  code?: ErrorCode;
+  retryable?: boolean;
+
+  // Set on 400 responses, one entry per invalid field
+  errors?: ValidationIssue[];
+
+  // Unknown request fields, which are ignored
+  warnings?: ValidationIssue[];
+
+  // Set when output.composite is requested
+  compositeImageUrl?: string;
+
+  // Number of differing pixels (hash bits are not pixels, so unset for 'hash')
+  diffPixels?: number;
+
+  // Rules that made the comparison fail, empty when it passed
+  failedRules?: FailRule[];
+
+  // Set when earlyExit is enabled; true if scanning stopped before the end
+  partial?: boolean;
+
+  // Set when images were downscaled to fit performance.maxDimension
+  scaleFactor?: number;
+
+  // Set when algorithm is 'ssim'
+  ssim?: {
+    index: number;
+    threshold: number;
+    windowSize: number;
+  };
+
+  // Set when algorithm is 'ciede2000'
+  deltaE?: {
+    mean: number;
+    max: number;
+    tolerance: number;
+  };
+
+  // Set when algorithm is 'hash'
+  hash?: {
+    type: ImageHashType;
+    distance: number;
+    similarity: number;
+    maxDistance: number;
+    base: ImageHashes;
+    actual: ImageHashes;
+  };
+
   // Optional extended data
   metadata?: {
     baseImage?: {
@@ -96,6 +263,9 @@ interface CompareImagesResponseBody {
       diffPixels: number;
       processingTime: number;
       algorithm: string;
+      ignoredRegionPixels?: number;
+      ignoredColorPixels?: number;
+      colorTransforms?: string[];
     };
   };
 
@@ -108,14 +278,82 @@ interface CompareImagesResponseBody {
     height: number;
   };
 
+  // Set when output.mode is 'heatmap'
+  heatmap?: {
+    metric: "yiq";
+    scale: { min: number; max: number };
+    threshold: number;
+    maxDistance: number;
+    legend: HeatmapLegendStop[];
+  };
+
+  // Distinct clusters of differing pixels, largest first
+  diffRegions?: DiffRegion[];
+
   processedImages?: {
     baseImageUrl?: string;
     actualImageUrl?: string;
   };
+
+  resize?: {
+    strategy: ResizeStrategy;
+    width: number;
+    height: number;
+    base: ResizeAdjustment;
+    actual: ResizeAdjustment;
+  };
+
+  timeout?: {
+    stage: ProcessingStage;
+    limit: number;
+    elapsed: number;
+  };
+}
+
+interface ResizeAdjustment {
+  scaledWidth: number;
+  scaledHeight: number;
+  crop: { left: number; top: number; width: number; height: number } | null;
+  padding: { top: number; right: number; bottom: number; left: number } | null;
 }
 
 const MAX_IMAGE_DATA_LENGTH = 6 * 1024 * 1024;
 const MAX_REQUEST_SIZE = 6 * 1024 * 1024;
+const DEFAULT_TIMEOUT = 30000;
+const MAX_FETCH_RETRIES = 5;
+// Largest delay setTimeout accepts; longer ones fire immediately
+const MAX_TIMER_DELAY = 2147483647;
+const DEFAULT_MAX_DIMENSION = 4096;
+const DEFAULT_SSIM_THRESHOLD = 0.95;
+const DEFAULT_SSIM_WINDOW_SIZE = 8;
+const DEFAULT_DELTA_E_TOLERANCE = 2.3;
+const DEFAULT_HASH_MAX_DISTANCE = 5;
+const DEFAULT_REGION_MERGE_DISTANCE = 10;
+const DEFAULT_REGION_MIN_PIXELS = 1;
+const HASH_TYPES: ImageHashType[] = ["aHash", "dHash", "pHash"];
+const THRESHOLD_TYPES: ThresholdType[] = ["percent", "pixels"];
+const OUTPUT_MODES: OutputMode[] = ["diff", "heatmap"];
+const OUTPUT_FORMATS: OutputFormat[] = ["png", "jpeg", "webp"];
+const COMPOSITE_LAYOUTS: CompositeLayout[] = ["horizontal", "vertical"];
+const ANIMATION_FORMATS: AnimationFormat[] = ["webp", "gif"];
+const DEFAULT_ANIMATION_DELAY = 500;
+const ALGORITHMS: ComparisonAlgorithm[] = ["pixelmatch", "ssim", "ciede2000", "hash"];
+
+// Accept types answered with the raw diff image instead of JSON
+const IMAGE_RESPONSE_TYPES: Record<string, OutputFormat> = {
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/jpeg": "jpeg",
+};
+
+// Results sent as headers with a binary diff image
+const IMAGE_RESPONSE_HEADERS = [
+  "X-Status",
+  "X-Difference-Percentage",
+  "X-Diff-Pixels",
+  "X-Failed-Rules",
+  "X-Diff-Bounds",
+];
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": process.env.ALLOWED_ORIGIN || "*",
@@ -130,33 +368,130 @@ export async function OPTIONS() {
   });
 }
 
-async function base64ToBuffer(dataUri: string): Promise<Buffer> {
-  if (dataUri.startsWith("data:")) {
-    const base64Data = dataUri.split(",")[1];
-    if (!base64Data) {
-      throw new Error("Invalid data URI format: missing base64 data");
+type ProcessingStage =
+  | "compress"
+  | "fetch"
+  | "decode"
+  | "resize"
+  | "preprocess"
+  | "compare"
+  | "encode";
+
+class ProcessingTimeoutError extends Error {
+  constructor(
+    public stage: ProcessingStage,
+    public limit: number,
+    public elapsed: number
+  ) {
+    super(`Processing timed out after ${limit}ms during ${stage} stage.`);
+    this.name = "ProcessingTimeoutError";
+  }
+}
+
+interface Deadline {
+  signal: AbortSignal;
+  run<T>(stage: ProcessingStage, work: () => Promise<T>): Promise<T>;
+  clear(): void;
+}
+
+// Aborts in-flight work once the timeout expires and reports the stage it hit
+function createDeadline(limit: number): Deadline {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), limit);
+  const { signal } = controller;
+
+  const timeoutError = (stage: ProcessingStage) =>
+    new ProcessingTimeoutError(stage, limit, Date.now() - startedAt);
+
+  return {
+    signal,
+    run(stage, work) {
+      if (signal.aborted) {
+        return Promise.reject(timeoutError(stage));
+      }
+      return new Promise((resolve, reject) => {
+        const onAbort = () => reject(timeoutError(stage));
+        signal.addEventListener("abort", onAbort, { once: true });
+        work()
+          .then((result) => {
+            // Synchronous work cannot be interrupted, so check once it returns
+            if (signal.aborted) {
+              reject(timeoutError(stage));
+            } else {
+              resolve(result);
+            }
+          }, reject)
+          .finally(() => signal.removeEventListener("abort", onAbort));
+      });
+    },
+    clear() {
+      clearTimeout(timer);
+    },
+  };
+}
+
+// Picks the image type for a binary response from the Accept header. JSON stays
+// the default: only an explicit image type preferred over application/json counts.
+function negotiateImageFormat(accept: string | null): OutputFormat | undefined {
+  let best: { format?: OutputFormat; q: number } = { q: 0 };
+  for (const range of (accept ?? "").split(",")) {
+    const [type, ...params] = range.split(";").map((part) => part.trim().toLowerCase());
+    const qParam = params.find((param) => param.startsWith("q="));
+    const q = qParam ? Number(qParam.slice(2)) : 1;
+    if (!(q > best.q)) continue;
+    if (type === "application/json") {
+      best = { q };
+    } else if (type in IMAGE_RESPONSE_TYPES) {
+      best = { format: IMAGE_RESPONSE_TYPES[type], q };
     }
-    const cleanBase64 = base64Data.trim().replace(/\s/g, "");
-    return Buffer.from(cleanBase64, "base64");
   }
-  const response = await fetch(dataUri);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch image: ${response.statusText}`);
+  return best.format;
+}
+
+// Encodes a diff or composite image with options.output.format and options.quality
+async function encodeOutputBuffer(
+  image: sharp.Sharp,
+  options: CompareImagesRequestBody["options"]
+): Promise<Buffer> {
+  const outputFormat = options?.output?.format || "png";
+  const quality =
+    options?.quality?.[outputFormat as keyof typeof options.quality] ??
+    (outputFormat === "png" ? 6 : 90);
+
+  if (outputFormat === "jpeg") {
+    image = image.jpeg({ quality: quality as number });
+  } else if (outputFormat === "webp") {
+    image = image.webp({ quality: quality as number });
+  } else {
+    image = image.png({ compressionLevel: quality as number });
   }
-  const arrayBuffer = await response.arrayBuffer();
-  return Buffer.from(arrayBuffer);
+
+  return image.toBuffer();
 }
 
-async function compressImageIfNeeded(dataUri: string): Promise<string> {
+async function encodeOutputImage(
+  image: sharp.Sharp,
+  options: CompareImagesRequestBody["options"]
+): Promise<string> {
+  const buffer = await encodeOutputBuffer(image, options);
+  return `data:image/${options?.output?.format || "png"};base64,${buffer.toString("base64")}`;
+}
+
+// Data URIs are measured by their encoded length, uploaded files by their bytes
+async function compressImageIfNeeded(
+  input: ImageInput,
+  signal?: AbortSignal
+): Promise<ImageInput> {
   const threshold = 3 * 1024 * 1024;
   
-  if (dataUri.length <= threshold) {
-    return dataUri;
+  if (input.length <= threshold) {
+    return input;
   }
   
-  console.log(`[API] Image size ${(dataUri.length / 1024 / 1024).toFixed(2)}MB > 3MB, compressing...`);
+  console.log(`[API] Image size ${(input.length / 1024 / 1024).toFixed(2)}MB > 3MB, compressing...`);
   
-  const buffer = await base64ToBuffer(dataUri);
+  const buffer = typeof input === "string" ? await base64ToBuffer(input, signal) : input;
   const image = sharp(buffer);
   const metadata = await image.metadata();
   
@@ -213,12 +548,14 @@ async function compressImageIfNeeded(dataUri: string): Promise<string> {
     compressedSize = compressedBuffer.length;
   }
   
-  const base64Compressed = compressedBuffer.toString('base64');
-  const newDataUri = `data:image/${format};base64,${base64Compressed}`;
+  const output =
+    typeof input === "string"
+      ? `data:image/${format};base64,${compressedBuffer.toString('base64')}`
+      : compressedBuffer;
   
-  console.log(`[API] Compression complete: ${(dataUri.length / 1024 / 1024).toFixed(2)}MB → ${(newDataUri.length / 1024 / 1024).toFixed(2)}MB`);
+  console.log(`[API] Compression complete: ${(input.length / 1024 / 1024).toFixed(2)}MB → ${(output.length / 1024 / 1024).toFixed(2)}MB`);
   
-  return newDataUri;
+  return output;
 }
 
 interface ImageData {
@@ -227,11 +564,36 @@ interface ImageData {
   height: number;
 }
 
-async function decodeImage(buffer: Buffer): Promise<ImageData> {
+async function readImageSize(
+  buffer: Buffer
+): Promise<{ width: number; height: number }> {
+  try {
+    const { width, height } = await sharp(buffer).metadata();
+    if (!width || !height) {
+      throw new Error("missing image dimensions");
+    }
+    return { width, height };
+  } catch (error: any) {
+    throw new CodedError(
+      "DECODE_FAILED",
+      `Failed to decode image: ${error.message}. Supported formats: PNG, JPEG, WebP, GIF, AVIF, TIFF, SVG.`
+    );
+  }
+}
+
+async function decodeImage(buffer: Buffer, scale = 1): Promise<ImageData> {
   try {
-    const image = sharp(buffer);
+    let image = sharp(buffer);
     const metadata = await image.metadata();
 
+    if (scale < 1 && metadata.width && metadata.height) {
+      image = image.resize(
+        Math.max(1, Math.round(metadata.width * scale)),
+        Math.max(1, Math.round(metadata.height * scale)),
+        { fit: "fill" }
+      );
+    }
+
     const { data, info } = await image
       .raw()
       .ensureAlpha()
@@ -243,24 +605,115 @@ async function decodeImage(buffer: Buffer): Promise<ImageData> {
       height: info.height,
     };
   } catch (error: any) {
-    throw new Error(
+    throw new CodedError(
+      "DECODE_FAILED",
       `Failed to decode image: ${error.message}. Supported formats: PNG, JPEG, WebP, GIF, AVIF, TIFF, SVG.`
     );
   }
 }
 
+const RESIZE_STRATEGIES: ResizeStrategy[] = [
+  "fit",
+  "fill",
+  "cover",
+  "contain",
+  "inside",
+  "outside",
+  "pad",
+  "crop",
+];
+
+// Works out how one image is scaled, then cropped or padded to the target size
+function planResize(
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number,
+  strategy: ResizeStrategy
+): ResizeAdjustment {
+  let scaleX = 1;
+  let scaleY = 1;
+  const containScale = Math.min(targetWidth / width, targetHeight / height);
+  const coverScale = Math.max(targetWidth / width, targetHeight / height);
+
+  if (strategy === "fill") {
+    scaleX = targetWidth / width;
+    scaleY = targetHeight / height;
+  } else if (strategy === "cover") {
+    scaleX = scaleY = coverScale;
+  } else if (strategy === "outside") {
+    scaleX = scaleY = Math.max(1, coverScale);
+  } else if (strategy === "contain" || strategy === "fit") {
+    scaleX = scaleY = containScale;
+  } else if (strategy === "inside") {
+    scaleX = scaleY = Math.min(1, containScale);
+  }
+
+  const scaledWidth = Math.max(1, Math.round(width * scaleX));
+  const scaledHeight = Math.max(1, Math.round(height * scaleY));
+  const centered = strategy === "cover" || strategy === "contain";
+
+  const cropWidth = Math.min(scaledWidth, targetWidth);
+  const cropHeight = Math.min(scaledHeight, targetHeight);
+  const crop =
+    cropWidth < scaledWidth || cropHeight < scaledHeight
+      ? {
+          left: centered ? Math.floor((scaledWidth - cropWidth) / 2) : 0,
+          top: centered ? Math.floor((scaledHeight - cropHeight) / 2) : 0,
+          width: cropWidth,
+          height: cropHeight,
+        }
+      : null;
+
+  const padX = targetWidth - cropWidth;
+  const padY = targetHeight - cropHeight;
+  const padding =
+    padX > 0 || padY > 0
+      ? {
+          top: centered ? Math.floor(padY / 2) : 0,
+          right: centered ? padX - Math.floor(padX / 2) : padX,
+          bottom: centered ? padY - Math.floor(padY / 2) : padY,
+          left: centered ? Math.floor(padX / 2) : 0,
+        }
+      : null;
+
+  return { scaledWidth, scaledHeight, crop, padding };
+}
+
 async function resizeToMatch(
   buffer: Buffer,
-  targetWidth: number,
-  targetHeight: number
+  adjustment: ResizeAdjustment,
+  background?: [number, number, number]
 ): Promise<ImageData> {
   try {
-    const { data, info } = await sharp(buffer)
-      .resize(targetWidth, targetHeight, { fit: "fill" })
+    let pipeline = sharp(buffer).resize(
+      adjustment.scaledWidth,
+      adjustment.scaledHeight,
+      { fit: "fill" }
+    );
+    if (adjustment.crop) {
+      pipeline = pipeline.extract(adjustment.crop);
+    }
+
+    let { data, info } = await pipeline
       .raw()
       .ensureAlpha()
       .toBuffer({ resolveWithObject: true });
 
+    if (adjustment.padding) {
+      ({ data, info } = await sharp(data, {
+        raw: { width: info.width, height: info.height, channels: 4 },
+      })
+        .extend({
+          ...adjustment.padding,
+          background: background
+            ? { r: background[0], g: background[1], b: background[2], alpha: 1 }
+            : { r: 0, g: 0, b: 0, alpha: 0 },
+        })
+        .raw()
+        .toBuffer({ resolveWithObject: true }));
+    }
+
     return {
       data,
       width: info.width,
@@ -271,7 +724,233 @@ async function resizeToMatch(
   }
 }
 
-function calculateDiffBounds(diffData: Buffer, width: number, height: number) {
+interface IgnoreRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Shapes are checked by the request schema; this needs the compared image size
+function validateIgnoreRegions(
+  regions: IgnoreRegion[],
+  width: number,
+  height: number
+): ValidationIssue | null {
+  for (let i = 0; i < regions.length; i++) {
+    const region = regions[i];
+    if (region.x + region.width > width || region.y + region.height > height) {
+      return {
+        path: `/options/ignore/regions/${i}`,
+        message: `Ignore region at index ${i} (${region.x},${region.y} ${region.width}x${region.height}) is out of bounds for ${width}x${height} image.`,
+      };
+    }
+  }
+
+  for (let i = 0; i < regions.length; i++) {
+    for (let j = i + 1; j < regions.length; j++) {
+      const a = regions[i];
+      const b = regions[j];
+      if (
+        a.x < b.x + b.width &&
+        b.x < a.x + a.width &&
+        a.y < b.y + b.height &&
+        b.y < a.y + a.height
+      ) {
+        return {
+          path: `/options/ignore/regions/${j}`,
+          message: `Ignore regions at index ${i} and ${j} overlap. Merge them into a single region.`,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+function createIgnoreMask(
+  regions: IgnoreRegion[],
+  width: number,
+  height: number
+): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const region of regions) {
+    for (let y = region.y; y < region.y + region.height; y++) {
+      mask.fill(1, y * width + region.x, y * width + region.x + region.width);
+    }
+  }
+  return mask;
+}
+
+// Copies masked pixels from img1 into img2 so pixelmatch sees them as identical
+function applyIgnoreMask(img1: ImageData, img2: ImageData, mask: Uint8Array) {
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) {
+      img1.data.copy(img2.data, i * 4, i * 4, i * 4 + 4);
+    }
+  }
+}
+
+interface IgnoreColor {
+  rgb: [number, number, number];
+  tolerance: number;
+}
+
+const HEX_COLOR = /^\s*#?([0-9a-f]{3}|[0-9a-f]{6})\s*$/i;
+
+function parseHexColor(hex: string): [number, number, number] | null {
+  const match = HEX_COLOR.exec(hex);
+  if (!match) return null;
+  const digits =
+    match[1].length === 3
+      ? match[1].split("").map((c) => c + c).join("")
+      : match[1];
+  return [
+    parseInt(digits.slice(0, 2), 16),
+    parseInt(digits.slice(2, 4), 16),
+    parseInt(digits.slice(4, 6), 16),
+  ];
+}
+
+// Entries are checked by the request schema
+function parseIgnoreColors(
+  colors: NonNullable<NonNullable<CompareImagesRequestBody["options"]>["ignore"]>["colors"]
+): IgnoreColor[] {
+  return (colors ?? []).map((entry) =>
+    typeof entry === "string"
+      ? { rgb: parseHexColor(entry) as [number, number, number], tolerance: 0 }
+      : { rgb: parseHexColor(entry.color) as [number, number, number], tolerance: entry.tolerance ?? 0 }
+  );
+}
+
+function matchesIgnoreColor(data: Buffer, idx: number, colors: IgnoreColor[]) {
+  return colors.some(
+    ({ rgb, tolerance }) =>
+      Math.abs(data[idx] - rgb[0]) <= tolerance &&
+      Math.abs(data[idx + 1] - rgb[1]) <= tolerance &&
+      Math.abs(data[idx + 2] - rgb[2]) <= tolerance
+  );
+}
+
+// Marks pixels whose color in either image matches an ignored color
+function createColorIgnoreMask(
+  img1: ImageData,
+  img2: ImageData,
+  colors: IgnoreColor[],
+  regionMask?: Uint8Array
+): { mask: Uint8Array; count: number } {
+  const mask = new Uint8Array(img1.width * img1.height);
+  let count = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (regionMask?.[i]) continue;
+    if (
+      matchesIgnoreColor(img1.data, i * 4, colors) ||
+      matchesIgnoreColor(img2.data, i * 4, colors)
+    ) {
+      mask[i] = 1;
+      count++;
+    }
+  }
+  return { mask, count };
+}
+
+// Draws ignored areas as grey diagonal hatching so they stand out from diffs
+function drawIgnoredRegions(diffData: Buffer, mask: Uint8Array, width: number) {
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) {
+      const x = i % width;
+      const y = Math.floor(i / width);
+      const shade = (x + y) % 8 < 4 ? 160 : 96;
+      diffData[i * 4] = shade;
+      diffData[i * 4 + 1] = shade;
+      diffData[i * 4 + 2] = shade;
+      diffData[i * 4 + 3] = 255;
+    }
+  }
+}
+
+type ColorSpaceOptions = NonNullable<
+  NonNullable<CompareImagesRequestBody["options"]>["colorSpace"]
+>;
+
+const COLOR_SPACES = ["srgb", "rgb16", "cmyk", "lab", "b-w"];
+
+function getColorTransforms(colorSpace: ColorSpaceOptions = {}): string[] {
+  const transforms: string[] = [];
+  if (colorSpace.normalize) transforms.push("normalize");
+  if (colorSpace.convert && colorSpace.convert !== "b-w") {
+    transforms.push(`convert:${colorSpace.convert}`);
+  }
+  if (colorSpace.grayscale || colorSpace.convert === "b-w") {
+    transforms.push("grayscale");
+  }
+  return transforms;
+}
+
+// Packs L*a*b* into the RGB channels (L scaled to 0-255, a/b offset by 128)
+function encodeLab(data: Buffer) {
+  for (let i = 0; i < data.length; i += 4) {
+    const [l, a, b] = rgbToLab(data[i], data[i + 1], data[i + 2]);
+    data[i] = Math.round((l / 100) * 255);
+    data[i + 1] = Math.max(0, Math.min(255, Math.round(a + 128)));
+    data[i + 2] = Math.max(0, Math.min(255, Math.round(b + 128)));
+  }
+}
+
+async function applyColorSpace(
+  img: ImageData,
+  colorSpace: ColorSpaceOptions = {}
+): Promise<ImageData> {
+  if (getColorTransforms(colorSpace).length === 0) {
+    return img;
+  }
+
+  try {
+    const { width, height } = img;
+    let pipeline = sharp(img.data, { raw: { width, height, channels: 4 } });
+
+    if (colorSpace.convert === "rgb16") {
+      pipeline = pipeline.pipelineColourspace("rgb16");
+    }
+    if (colorSpace.normalize) {
+      pipeline = pipeline.normalise();
+    }
+    if (colorSpace.convert === "cmyk") {
+      // Round-trip through CMYK so both images share its gamut mapping
+      const cmyk = await pipeline.toColourspace("cmyk").tiff().toBuffer();
+      pipeline = sharp(cmyk);
+    }
+    if (colorSpace.grayscale || colorSpace.convert === "b-w") {
+      pipeline = pipeline.grayscale();
+    } else {
+      pipeline = pipeline.toColourspace("srgb");
+    }
+
+    const { data: converted, info } = await pipeline
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const data = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      const src = i * info.channels;
+      const grey = info.channels < 3;
+      data[i * 4] = converted[src];
+      data[i * 4 + 1] = grey ? converted[src] : converted[src + 1];
+      data[i * 4 + 2] = grey ? converted[src] : converted[src + 2];
+      data[i * 4 + 3] = img.data[i * 4 + 3];
+    }
+
+    if (colorSpace.convert === "lab") {
+      encodeLab(data);
+    }
+
+    return { data, width, height };
+  } catch (error: any) {
+    throw new Error(`Failed to apply color space options: ${error.message}`);
+  }
+}
+
+function calculateMaskBounds(mask: Uint8Array, width: number, height: number) {
   let minX = width;
   let minY = height;
   let maxX = 0;
@@ -279,12 +958,7 @@ function calculateDiffBounds(diffData: Buffer, width: number, height: number) {
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      const r = diffData[idx];
-      const g = diffData[idx + 1];
-      const b = diffData[idx + 2];
-
-      if (r > 0 || g > 0 || b > 0) {
+      if (mask[y * width + x]) {
         if (x < minX) minX = x;
         if (x > maxX) maxX = x;
         if (y < minY) minY = y;
@@ -303,131 +977,871 @@ function calculateDiffBounds(diffData: Buffer, width: number, height: number) {
   };
 }
 
+// Maps a rectangle from original-image coordinates onto the downscaled image
+function scaleRegion(
+  region: IgnoreRegion,
+  scale: number,
+  width: number,
+  height: number
+): IgnoreRegion {
+  const x = Math.min(width - 1, Math.floor(region.x * scale));
+  const y = Math.min(height - 1, Math.floor(region.y * scale));
+  const right = Math.min(width, Math.ceil((region.x + region.width) * scale));
+  const bottom = Math.min(height, Math.ceil((region.y + region.height) * scale));
+  return {
+    x,
+    y,
+    width: Math.max(1, right - x),
+    height: Math.max(1, bottom - y),
+  };
+}
+
+// Maps diff bounds from the downscaled image back to original-image coordinates
+function unscaleBounds(
+  bounds: ReturnType<typeof calculateMaskBounds>,
+  scale: number,
+  width: number,
+  height: number
+): ReturnType<typeof calculateMaskBounds> {
+  const left = Math.floor(bounds.left / scale);
+  const top = Math.floor(bounds.top / scale);
+  const right = Math.min(width - 1, Math.ceil((bounds.right + 1) / scale) - 1);
+  const bottom = Math.min(height - 1, Math.ceil((bounds.bottom + 1) / scale) - 1);
+  return {
+    left,
+    top,
+    right,
+    bottom,
+    width: right - left + 1,
+    height: bottom - top + 1,
+  };
+}
+
+const EARLY_EXIT_CHUNK_PIXELS = 64 * 1024;
+
+// Runs pixelmatch over horizontal bands, stopping once maxDiffPixels is exceeded
+async function compareInChunks(
+  img1: ImageData,
+  img2: ImageData,
+  diffData: Buffer,
+  pixelmatchOptions: any,
+  maxDiffPixels: number,
+  signal: AbortSignal
+): Promise<{ numDiffPixels: number; partial: boolean; scannedRows: number }> {
+  const { width, height } = img1;
+  const rowsPerChunk = Math.max(1, Math.floor(EARLY_EXIT_CHUNK_PIXELS / width));
+  let numDiffPixels = 0;
+
+  for (let y = 0; y < height; y += rowsPerChunk) {
+    if (signal.aborted) break;
+
+    const rows = Math.min(rowsPerChunk, height - y);
+    const start = y * width * 4;
+    const end = (y + rows) * width * 4;
+    numDiffPixels += pixelmatch(
+      img1.data.subarray(start, end),
+      img2.data.subarray(start, end),
+      diffData.subarray(start, end),
+      width,
+      rows,
+      pixelmatchOptions
+    );
+
+    if (numDiffPixels > maxDiffPixels) {
+      return { numDiffPixels, partial: y + rows < height, scannedRows: y + rows };
+    }
+
+    // Yield so the processing deadline can fire between chunks
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  return { numDiffPixels, partial: false, scannedRows: height };
+}
+
+// Marks the pixels pixelmatch counts as different. The user's diff image can't
+// be read back reliably (diffColor may equal a grey unchanged pixel or aaColor),
+// so the first `rows` rows are compared again into a scratch buffer where
+// unchanged pixels stay transparent and differing ones get a fixed color.
+function createPixelmatchMask(
+  img1: ImageData,
+  img2: ImageData,
+  pixelmatchOptions: any,
+  rows: number = img1.height
+): Uint8Array {
+  const { width, height } = img1;
+  const length = width * rows * 4;
+  const scratch = Buffer.alloc(length);
+  pixelmatch(img1.data.subarray(0, length), img2.data.subarray(0, length), scratch, width, rows, {
+    ...pixelmatchOptions,
+    diffMask: true,
+    diffColor: [255, 0, 0],
+    diffColorAlt: [255, 0, 0],
+    aaColor: [0, 0, 255],
+  });
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < width * rows; i++) {
+    if (scratch[i * 4 + 3] > 0 && scratch[i * 4] === 255) {
+      mask[i] = 1;
+    }
+  }
+  return mask;
+}
+
+// Text form fields holding numbers; anything that is not a number is passed
+// through as a string so validation rejects it like a bad JSON value
+function formNumber(value: FormDataEntryValue | null): number | string | undefined {
+  if (value === null) return undefined;
+  if (typeof value !== "string") return String(value);
+  const trimmed = value.trim();
+  return trimmed !== "" && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : value;
+}
+
+async function formImageSource(
+  formData: FormData,
+  filePart: string,
+  sourceField: string
+): Promise<ImageInput | undefined> {
+  const file = formData.get(filePart);
+  if (file && typeof file !== "string") {
+    return Buffer.from(await file.arrayBuffer());
+  }
+  const source = formData.get(sourceField) ?? file;
+  return typeof source === "string" && source !== "" ? source : undefined;
+}
+
+async function formOptions(value: FormDataEntryValue | null): Promise<CompareImagesRequestBody["options"]> {
+  if (value === null) return undefined;
+  try {
+    return JSON.parse(typeof value === "string" ? value : await value.text());
+  } catch {
+    throw new CodedError("INVALID_JSON", "Invalid JSON in the options form field.");
+  }
+}
+
+// Maps multipart/form-data onto the JSON body: baseImageSource/actualImageSource
+// text fields (or a baselineId field), threshold fields and an options JSON
+// part. baseImage/actualImage file parts are kept as bytes, so uploads skip
+// the base64 round trip and are size-checked by their real length.
+async function parseMultipartBody(
+  request: NextRequest
+): Promise<{ body: CompareImagesRequestBody; uploads: MultipartUploads }> {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    throw new CodedError("INVALID_REQUEST", "Invalid multipart/form-data payload provided.");
+  }
+
+  const base = await formImageSource(formData, "baseImage", "baseImageSource");
+  const actual = await formImageSource(formData, "actualImage", "actualImageSource");
+  return {
+    body: {
+      baseImageSource: typeof base === "string" ? base : undefined,
+      baselineId: (formData.get("baselineId") || undefined) as string | undefined,
+      actualImageSource: typeof actual === "string" ? actual : undefined,
+      threshold: formNumber(formData.get("threshold")) as number | undefined,
+      thresholdType: (formData.get("thresholdType") ?? undefined) as ThresholdType | undefined,
+      warnThreshold: formNumber(formData.get("warnThreshold")) as number | undefined,
+      options: await formOptions(formData.get("options")),
+    },
+    uploads: {
+      base: Buffer.isBuffer(base) ? base : undefined,
+      actual: Buffer.isBuffer(actual) ? actual : undefined,
+    },
+  };
+}
+
+const SOURCE_CREDENTIALS_PROPERTIES: Record<string, Rule> = {
+  headers: { type: "record", values: { type: "string" } },
+  cookies: { type: "record", values: { type: "string" } },
+  auth: {
+    type: "object",
+    required: ["username", "password"],
+    properties: {
+      username: { type: "string" },
+      password: { type: "string" },
+    },
+  },
+};
+
+const RGB_RULE: Rule = {
+  type: "tuple",
+  items: [0, 1, 2].map((): Rule => ({ type: "number", integer: true, min: 0, max: 255 })),
+  expected: "an [r, g, b] array of integers between 0 and 255",
+};
+
+// Mirrors api-requestbody-schema.json. Rules that depend on another field, or
+// on the image size, are checked separately.
+const COMPARE_REQUEST_SCHEMA: Rule = {
+  type: "object",
+  properties: {
+    baseImageSource: { type: "string", minLength: 1 },
+    baselineId: {
+      type: "string",
+      pattern: BASELINE_ID,
+      expected: 'a baseline id like "checkout-page:main"',
+    },
+    actualImageSource: { type: "string", minLength: 1 },
+    threshold: {
+      type: "number",
+      min: 0,
+      expected: "a number >= 0 (an integer with thresholdType 'pixels')",
+    },
+    thresholdType: { type: "enum", values: THRESHOLD_TYPES },
+    warnThreshold: { type: "number", min: 0 },
+    options: {
+      type: "object",
+      properties: {
+        algorithm: { type: "enum", values: ALGORITHMS },
+        ssim: {
+          type: "object",
+          properties: {
+            threshold: { type: "number", min: 0, max: 1 },
+            windowSize: { type: "number", integer: true, min: 2 },
+          },
+        },
+        deltaE: {
+          type: "object",
+          properties: {
+            tolerance: { type: "number", min: 0 },
+          },
+        },
+        hash: {
+          type: "object",
+          properties: {
+            type: { type: "enum", values: HASH_TYPES },
+            maxDistance: { type: "number", integer: true, min: 0, max: HASH_BITS },
+          },
+        },
+        pixelmatch: {
+          type: "object",
+          properties: {
+            threshold: { type: "number", min: 0, max: 1 },
+            includeAA: { type: "boolean" },
+            alpha: { type: "number", min: 0, max: 1 },
+            aaColor: RGB_RULE,
+            diffColor: RGB_RULE,
+            diffColorAlt: RGB_RULE,
+            diffMask: { type: "boolean" },
+          },
+        },
+        resize: {
+          type: "object",
+          properties: {
+            enabled: { type: "boolean" },
+            strategy: { type: "enum", values: RESIZE_STRATEGIES },
+            width: { type: "number", integer: true, min: 1 },
+            height: { type: "number", integer: true, min: 1 },
+            maintainAspectRatio: { type: "boolean" },
+            background: RGB_RULE,
+          },
+        },
+        quality: {
+          type: "object",
+          properties: {
+            jpeg: { type: "number", integer: true, min: 1, max: 100 },
+            png: { type: "number", integer: true, min: 0, max: 9 },
+            webp: { type: "number", integer: true, min: 1, max: 100 },
+          },
+        },
+        colorSpace: {
+          type: "object",
+          properties: {
+            convert: { type: "enum", values: COLOR_SPACES },
+            grayscale: { type: "boolean" },
+            normalize: { type: "boolean" },
+          },
+        },
+        output: {
+          type: "object",
+          properties: {
+            format: { type: "enum", values: OUTPUT_FORMATS },
+            mode: { type: "enum", values: OUTPUT_MODES },
+            composite: {
+              type: "union",
+              rules: [
+                { type: "boolean" },
+                {
+                  type: "object",
+                  properties: {
+                    layout: { type: "enum", values: COMPOSITE_LAYOUTS },
+                    labels: { type: "boolean" },
+                    regions: { type: "boolean" },
+                  },
+                },
+              ],
+            },
+            animated: {
+              type: "union",
+              rules: [
+                { type: "boolean" },
+                {
+                  type: "object",
+                  properties: {
+                    format: { type: "enum", values: ANIMATION_FORMATS },
+                    delay: { type: "number", integer: true, min: 10, max: 65535 },
+                    includeDiff: { type: "boolean" },
+                    crop: { type: "boolean" },
+                  },
+                },
+              ],
+            },
+            includeOriginals: { type: "boolean" },
+            includeDiffBounds: { type: "boolean" },
+            includeMetadata: { type: "boolean" },
+            includeDiffImage: { type: "boolean" },
+          },
+        },
+        regions: {
+          type: "object",
+          properties: {
+            mergeDistance: { type: "number", integer: true, min: 0 },
+            minPixels: { type: "number", integer: true, min: 1 },
+            maxPixels: { type: "number", integer: true, min: 1 },
+            maxWidth: { type: "number", integer: true, min: 1 },
+            maxHeight: { type: "number", integer: true, min: 1 },
+          },
+        },
+        performance: {
+          type: "object",
+          properties: {
+            maxDimension: { type: "number", integer: true, min: 1 },
+            timeout: { type: "number", min: 0, exclusiveMin: true, max: MAX_TIMER_DELAY },
+            earlyExit: { type: "boolean" },
+          },
+        },
+        fetch: {
+          type: "object",
+          properties: {
+            ...SOURCE_CREDENTIALS_PROPERTIES,
+            timeout: { type: "number", min: 0, exclusiveMin: true, max: MAX_TIMER_DELAY },
+            retries: { type: "number", integer: true, min: 0, max: MAX_FETCH_RETRIES },
+            retryDelay: { type: "number", min: 0 },
+            base: { type: "object", properties: SOURCE_CREDENTIALS_PROPERTIES },
+            actual: { type: "object", properties: SOURCE_CREDENTIALS_PROPERTIES },
+          },
+        },
+        ignore: {
+          type: "object",
+          properties: {
+            antialiasing: { type: "boolean" },
+            regions: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["x", "y", "width", "height"],
+                properties: {
+                  x: { type: "number", integer: true, min: 0 },
+                  y: { type: "number", integer: true, min: 0 },
+                  width: { type: "number", integer: true, min: 1 },
+                  height: { type: "number", integer: true, min: 1 },
+                },
+              },
+            },
+            colors: {
+              type: "array",
+              items: {
+                type: "union",
+                rules: [
+                  {
+                    type: "string",
+                    pattern: HEX_COLOR,
+                    expected: 'a valid ignore color: a hex string like "#ff00aa" or "#f0a"',
+                  },
+                  {
+                    type: "object",
+                    required: ["color"],
+                    properties: {
+                      color: {
+                        type: "string",
+                        pattern: HEX_COLOR,
+                        expected: 'a valid ignore color: a hex string like "#ff00aa" or "#f0a"',
+                      },
+                      tolerance: { type: "number", min: 0, max: 255 },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+// Schema validation plus the rules that depend on another field: both images
+// (exactly one of baseImageSource and baselineId, where an upload counts as a
+// source), and the threshold rules of thresholdType
+function validateRequestBody(body: unknown, uploads: MultipartUploads = {}): ValidationResult {
+  const result = validate(body, COMPARE_REQUEST_SCHEMA);
+  if (typeof body === "object" && body !== null && !Array.isArray(body)) {
+    const { baseImageSource, baselineId, actualImageSource } = body as CompareImagesRequestBody;
+    const hasBaseSource = baseImageSource !== undefined || uploads.base !== undefined;
+    const sourceErrors: ValidationIssue[] = [];
+    if (!hasBaseSource && baselineId === undefined) {
+      sourceErrors.push({ path: "/baseImageSource", message: "baseImageSource is required." });
+    } else if (hasBaseSource && baselineId !== undefined) {
+      sourceErrors.push({
+        path: "/baselineId",
+        message: "Provide either baseImageSource or baselineId, not both.",
+      });
+    }
+    if (actualImageSource === undefined && uploads.actual === undefined) {
+      sourceErrors.push({ path: "/actualImageSource", message: "actualImageSource is required." });
+    }
+    result.errors.unshift(...sourceErrors);
+  }
+  if (result.errors.length > 0) {
+    return result;
+  }
+
+  const {
+    threshold = 0,
+    thresholdType = "percent",
+    warnThreshold,
+  } = body as CompareImagesRequestBody;
+  if (thresholdType === "pixels" && !Number.isInteger(threshold)) {
+    result.errors.push({
+      path: "/threshold",
+      message: "threshold must be an integer >= 0 with thresholdType 'pixels'.",
+    });
+  } else if (thresholdType === "percent" && threshold > 100) {
+    result.errors.push({
+      path: "/threshold",
+      message: "threshold must be a number between 0 and 100.",
+    });
+  }
+  if (warnThreshold !== undefined) {
+    if (warnThreshold > threshold) {
+      result.errors.push({
+        path: "/warnThreshold",
+        message: `warnThreshold must be no greater than threshold (${threshold}).`,
+      });
+    } else if (thresholdType === "pixels" && !Number.isInteger(warnThreshold)) {
+      result.errors.push({
+        path: "/warnThreshold",
+        message: "warnThreshold must be an integer with thresholdType 'pixels'.",
+      });
+    }
+  }
+  return result;
+}
+
+// Shared fetch options with the per-source ones merged over them; headers
+// and cookies merge by name, auth is replaced
+function sourceFetchOptions(
+  fetch: NonNullable<CompareImagesRequestBody["options"]>["fetch"],
+  source: "base" | "actual"
+): SourceFetchOptions {
+  if (!fetch) return {};
+  const { base, actual, ...shared } = fetch;
+  const overrides = (source === "base" ? base : actual) ?? {};
+  return {
+    ...shared,
+    headers: { ...shared.headers, ...overrides.headers },
+    cookies: { ...shared.cookies, ...overrides.cookies },
+    auth: overrides.auth ?? shared.auth,
+  };
+}
+
+// Uploaded bytes are used as they are; sources are decoded or fetched
+async function loadImage(
+  input: ImageInput,
+  signal: AbortSignal,
+  fetchOptions: SourceFetchOptions
+): Promise<Buffer> {
+  return typeof input === "string" ? base64ToBuffer(input, signal, fetchOptions) : input;
+}
+
+async function loadBaseline(id: string): Promise<Buffer> {
+  const baseline = await baselineStoreFromEnv().get(id);
+  if (!baseline) {
+    throw new CodedError(
+      "BASELINE_NOT_FOUND",
+      `Baseline "${id}" not found. Upload it to /api/baselines first.`
+    );
+  }
+  return baseline.image;
+}
+
+interface ErrorDetails {
+  errors?: ValidationIssue[];
+  warnings?: ValidationIssue[];
+  timeout?: CompareImagesResponseBody["timeout"];
+}
+
+function acceptsProblemJson(request: NextRequest): boolean {
+  return (request.headers?.get("accept") ?? "")
+    .split(",")
+    .some((range) => range.split(";")[0].trim().toLowerCase() === "application/problem+json");
+}
+
+// Error body for a code; an RFC 7807 problem document when the client accepts one
+function errorResponse(
+  request: NextRequest,
+  code: ErrorCode,
+  error: string,
+  { warnings, ...details }: ErrorDetails = {}
+) {
+  const { status, title, retryable } = ERROR_CODES[code];
+  const extra = { ...details, ...(warnings && warnings.length > 0 && { warnings }) };
+
+  if (acceptsProblemJson(request)) {
+    return NextResponse.json(
+      { type: problemType(code), title, status, detail: error, code, retryable, ...extra },
+      { status, headers: { ...corsHeaders, "Content-Type": "application/problem+json" } }
+    );
+  }
+  return NextResponse.json(
+    {
+      differencePercentage: null,
+      status: null,
+      diffImageUrl: null,
+      error,
+      code,
+      retryable,
+      ...extra,
+    } as CompareImagesResponseBody,
+    { status, headers: corsHeaders }
+  );
+}
+
 export async function POST(request: NextRequest) {
   console.log('[API] Image comparison request received');
+  let deadline: Deadline | undefined;
   
   try {
     const contentLength = request.headers.get('content-length');
     if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
       console.log('[API] Request too large:', contentLength, 'bytes (Netlify limit: 6MB)');
-      return NextResponse.json(
-        {
-          differencePercentage: null,
-          status: null,
-          diffImageUrl: null,
-          error: `Request size (${(parseInt(contentLength) / 1024 / 1024).toFixed(2)}MB) exceeds Netlify's 6MB limit. Please use smaller images.`,
-        } as CompareImagesResponseBody,
-        { status: 413, headers: corsHeaders }
+      return errorResponse(
+        request,
+        "PAYLOAD_TOO_LARGE",
+        `Request size (${(parseInt(contentLength) / 1024 / 1024).toFixed(2)}MB) exceeds Netlify's 6MB limit. Please use smaller images.`
       );
     }
     
-    const body = (await request.json()) as CompareImagesRequestBody;
-    const { baseImageSource, actualImageSource, threshold = 0, options } = body;
+    const isMultipart = request.headers
+      .get("content-type")
+      ?.toLowerCase()
+      .startsWith("multipart/form-data");
+    const { body, uploads } = isMultipart
+      ? await parseMultipartBody(request)
+      : { body: (await request.json()) as CompareImagesRequestBody, uploads: {} as MultipartUploads };
+    const { errors, warnings } = validateRequestBody(body, uploads);
+    if (errors.length > 0) {
+      console.log('[API] Invalid request:', errors.map((issue) => issue.path).join(", "));
+      return errorResponse(
+        request,
+        "INVALID_REQUEST",
+        errors.map((issue) => issue.message).join(" "),
+        { errors, warnings }
+      );
+    }
+
+    const {
+      baselineId,
+      actualImageSource,
+      threshold = 0,
+      thresholdType = "percent",
+      warnThreshold,
+      options,
+    } = body;
+    // A stored baseline stands in for baseImageSource. It is already on the
+    // server, so it is read in the fetch stage and decoded as stored, without
+    // compression or size limits.
+    const baseImage: ImageInput | undefined = uploads.base ?? body.baseImageSource;
+    const actualImage: ImageInput = uploads.actual ?? (actualImageSource as string);
     
-    console.log('[API] Request parsed. Base image length:', baseImageSource?.length || 0, 'Actual image length:', actualImageSource?.length || 0);
-
-    if (!baseImageSource || !actualImageSource) {
-      return NextResponse.json(
-        {
-          differencePercentage: null,
-          status: null,
-          diffImageUrl: null,
-          error: "Both baseImageSource and actualImageSource are required.",
-        } as CompareImagesResponseBody,
-        { status: 400, headers: corsHeaders }
+    console.log('[API] Request parsed. Base image length:', baseImage?.length ?? `baseline ${baselineId}`, 'Actual image length:', actualImage.length);
+
+    const timeout = options?.performance?.timeout ?? DEFAULT_TIMEOUT;
+    const maxDimension = options?.performance?.maxDimension ?? DEFAULT_MAX_DIMENSION;
+    const algorithm = options?.algorithm ?? "pixelmatch";
+    const ssimThreshold = options?.ssim?.threshold ?? DEFAULT_SSIM_THRESHOLD;
+    const ssimWindowSize = options?.ssim?.windowSize ?? DEFAULT_SSIM_WINDOW_SIZE;
+    const deltaETolerance = options?.deltaE?.tolerance ?? DEFAULT_DELTA_E_TOLERANCE;
+    const hashType = options?.hash?.type ?? "pHash";
+    const hashMaxDistance = options?.hash?.maxDistance ?? DEFAULT_HASH_MAX_DISTANCE;
+    const mergeDistance = options?.regions?.mergeDistance ?? DEFAULT_REGION_MERGE_DISTANCE;
+    const minRegionPixels = options?.regions?.minPixels ?? DEFAULT_REGION_MIN_PIXELS;
+
+    const composite = options?.output?.composite;
+    const compositeOptions: CompositeRequestOptions | undefined =
+      composite === true ? {} : composite || undefined;
+    const animated = options?.output?.animated;
+    const animatedOptions: AnimatedRequestOptions | undefined =
+      animated === true ? {} : animated || undefined;
+    const outputMode = options?.output?.mode ?? "diff";
+
+    const imageFormat = negotiateImageFormat(request.headers.get("accept"));
+    const animationFormat = animatedOptions ? animatedOptions.format ?? "webp" : undefined;
+    if (imageFormat && (algorithm === "hash" || (animationFormat && animationFormat !== imageFormat))) {
+      return errorResponse(
+        request,
+        "NOT_ACCEPTABLE",
+        algorithm === "hash"
+          ? `Cannot respond with image/${imageFormat}: algorithm "hash" produces no diff image. Accept application/json instead.`
+          : `Cannot respond with image/${imageFormat}: options.output.animated produces image/${animationFormat}. Accept application/json or image/${animationFormat} instead.`,
+        { warnings }
       );
     }
 
-    let processedBaseImage = baseImageSource;
-    let processedActualImage = actualImageSource;
+    deadline = createDeadline(timeout);
+    const { signal } = deadline;
+
+    let processedBaseImage = baseImage;
+    let processedActualImage = actualImage;
     
-    if (baseImageSource.length > 3 * 1024 * 1024) {
-      processedBaseImage = await compressImageIfNeeded(baseImageSource);
+    if (baseImage && baseImage.length > 3 * 1024 * 1024) {
+      processedBaseImage = await deadline.run("compress", () =>
+        compressImageIfNeeded(baseImage, signal)
+      );
     }
     
-    if (actualImageSource.length > 3 * 1024 * 1024) {
-      processedActualImage = await compressImageIfNeeded(actualImageSource);
+    if (actualImage.length > 3 * 1024 * 1024) {
+      processedActualImage = await deadline.run("compress", () =>
+        compressImageIfNeeded(actualImage, signal)
+      );
     }
     
-    if (processedBaseImage.length > MAX_IMAGE_DATA_LENGTH || processedActualImage.length > MAX_IMAGE_DATA_LENGTH) {
-      const largerSize = Math.max(processedBaseImage.length, processedActualImage.length);
+    const largerSize = Math.max(
+      processedBaseImage?.length ?? 0,
+      processedActualImage.length
+    );
+    if (largerSize > MAX_IMAGE_DATA_LENGTH) {
       console.log('[API] Image data still too large after compression:', (largerSize / 1024 / 1024).toFixed(2), 'MB');
-      return NextResponse.json(
-        {
-          differencePercentage: null,
-          status: null,
-          diffImageUrl: null,
-          error: `Images are too large (${(largerSize / 1024 / 1024).toFixed(2)}MB) even after automatic compression. Netlify has a 6MB limit. Please use smaller images.`,
-        } as CompareImagesResponseBody,
-        { status: 413, headers: corsHeaders }
+      return errorResponse(
+        request,
+        "PAYLOAD_TOO_LARGE",
+        `Images are too large (${(largerSize / 1024 / 1024).toFixed(2)}MB) even after automatic compression. Netlify has a 6MB limit. Please use smaller images.`,
+        { warnings }
       );
     }
 
-    if (typeof threshold !== "number" || threshold < 0 || threshold > 100) {
-      return NextResponse.json(
-        {
-          differencePercentage: null,
-          status: null,
-          diffImageUrl: null,
-          error: "Invalid threshold value. Must be a number between 0 and 100.",
-        } as CompareImagesResponseBody,
-        { status: 400, headers: corsHeaders }
-      );
-    }
     
     console.log('[API] Starting pixelmatch comparison...');
 
-    const baseBuffer = await base64ToBuffer(processedBaseImage);
-    const actualBuffer = await base64ToBuffer(processedActualImage);
+    const [baseBuffer, actualBuffer] = await deadline.run("fetch", () =>
+      Promise.all([
+        baselineId
+          ? loadBaseline(baselineId)
+          : loadImage(processedBaseImage as ImageInput, signal, sourceFetchOptions(options?.fetch, "base")),
+        loadImage(processedActualImage, signal, sourceFetchOptions(options?.fetch, "actual")),
+      ])
+    );
 
     const startTime = Date.now();
 
-    let img1 = await decodeImage(baseBuffer);
-    let img2 = await decodeImage(actualBuffer);
+    // Hash triage works on the sources directly and skips the pixel pipeline
+    if (algorithm === "hash") {
+      const [baseHashes, actualHashes] = await deadline.run("compare", () =>
+        Promise.all([computeImageHashes(baseBuffer), computeImageHashes(actualBuffer)])
+      );
+      const distance = hammingDistance(baseHashes[hashType], actualHashes[hashType]);
+      const failed = distance > hashMaxDistance;
+      const response: CompareImagesResponseBody = {
+        differencePercentage: (distance / HASH_BITS) * 100,
+        status: failed ? "Failed" : "Passed",
+        diffImageUrl: null,
+        error: null,
+        failedRules: failed ? ["hash.maxDistance"] : [],
+        ...(warnings.length > 0 && { warnings }),
+        hash: {
+          type: hashType,
+          distance,
+          similarity: 1 - distance / HASH_BITS,
+          maxDistance: hashMaxDistance,
+          base: baseHashes,
+          actual: actualHashes,
+        },
+      };
 
-    const originalDimensions = {
-      base: { width: img1.width, height: img1.height },
-      actual: { width: img2.width, height: img2.height },
-    };
+      if (options?.output?.includeMetadata) {
+        const [base, actual] = await Promise.all([
+          readImageSize(baseBuffer),
+          readImageSize(actualBuffer),
+        ]);
+        response.metadata = {
+          baseImage: { ...base, size: baseBuffer.length },
+          actualImage: { ...actual, size: actualBuffer.length },
+          comparison: {
+            totalPixels: HASH_BITS,
+            diffPixels: distance,
+            processingTime: Date.now() - startTime,
+            algorithm,
+          },
+        };
+      }
+
+      console.log('[API] Hash comparison successful. Distance:', distance);
+      return NextResponse.json(response, { status: 200, headers: corsHeaders });
+    }
+
+    const originalDimensions = await deadline.run("decode", async () => {
+      const [base, actual] = await Promise.all([
+        readImageSize(baseBuffer),
+        readImageSize(actualBuffer),
+      ]);
+      return { base, actual };
+    });
+
+    // One shared factor keeps both images (and their coordinates) in proportion
+    const largestSide = Math.max(
+      originalDimensions.base.width,
+      originalDimensions.base.height,
+      originalDimensions.actual.width,
+      originalDimensions.actual.height
+    );
+    const scaleFactor = largestSide > maxDimension ? maxDimension / largestSide : 1;
+    if (scaleFactor < 1) {
+      console.log(
+        `[API] Largest side ${largestSide}px > maxDimension ${maxDimension}px, downscaling by ${scaleFactor.toFixed(4)}`
+      );
+    }
+
+    let [img1, img2] = await deadline.run("decode", () =>
+      Promise.all([
+        decodeImage(baseBuffer, scaleFactor),
+        decodeImage(actualBuffer, scaleFactor),
+      ])
+    );
 
     const resizeEnabled = options?.resize?.enabled ?? true;
+    // A forced width or height applies even when the sizes already match
+    const forcedSize = Boolean(options?.resize?.width || options?.resize?.height);
+    let resizeInfo: CompareImagesResponseBody["resize"];
+    // Compared image size in original-image coordinates, taken from the
+    // original sizes: unscaling the downscaled size can be a pixel off
+    let unscaledWidth = originalDimensions.base.width;
+    let unscaledHeight = originalDimensions.base.height;
     if (
       resizeEnabled &&
-      (img1.width !== img2.width || img1.height !== img2.height)
+      (forcedSize || img1.width !== img2.width || img1.height !== img2.height)
     ) {
       console.log(
-        `Dimension mismatch: ${img1.width}x${img1.height} vs ${img2.width}x${img2.height}. Auto-resizing...`
+        forcedSize
+          ? `Resizing ${img1.width}x${img1.height} and ${img2.width}x${img2.height} to the requested size...`
+          : `Dimension mismatch: ${img1.width}x${img1.height} vs ${img2.width}x${img2.height}. Auto-resizing...`
       );
 
-      const targetWidth =
-        options?.resize?.width || Math.max(img1.width, img2.width);
-      const targetHeight =
-        options?.resize?.height || Math.max(img1.height, img2.height);
+      const strategy: ResizeStrategy =
+        options?.resize?.strategy ??
+        (options?.resize?.maintainAspectRatio ? "pad" : "fill");
+
+      const crop = strategy === "crop";
+      const targetWidth = options?.resize?.width
+        ? Math.max(1, Math.round(options.resize.width * scaleFactor))
+        : (crop ? Math.min : Math.max)(img1.width, img2.width);
+      const targetHeight = options?.resize?.height
+        ? Math.max(1, Math.round(options.resize.height * scaleFactor))
+        : (crop ? Math.min : Math.max)(img1.height, img2.height);
+
+      unscaledWidth =
+        options?.resize?.width ||
+        (crop ? Math.min : Math.max)(originalDimensions.base.width, originalDimensions.actual.width);
+      unscaledHeight =
+        options?.resize?.height ||
+        (crop ? Math.min : Math.max)(originalDimensions.base.height, originalDimensions.actual.height);
+
+      const baseAdjustment = planResize(img1.width, img1.height, targetWidth, targetHeight, strategy);
+      const actualAdjustment = planResize(img2.width, img2.height, targetWidth, targetHeight, strategy);
 
       if (img1.width !== targetWidth || img1.height !== targetHeight) {
-        img1 = await resizeToMatch(baseBuffer, targetWidth, targetHeight);
+        img1 = await deadline.run("resize", () =>
+          resizeToMatch(baseBuffer, baseAdjustment, options?.resize?.background)
+        );
       }
       if (img2.width !== targetWidth || img2.height !== targetHeight) {
-        img2 = await resizeToMatch(actualBuffer, targetWidth, targetHeight);
+        img2 = await deadline.run("resize", () =>
+          resizeToMatch(actualBuffer, actualAdjustment, options?.resize?.background)
+        );
       }
+
+      resizeInfo = {
+        strategy,
+        width: targetWidth,
+        height: targetHeight,
+        base: baseAdjustment,
+        actual: actualAdjustment,
+      };
     } else if (
       !resizeEnabled &&
       (img1.width !== img2.width || img1.height !== img2.height)
     ) {
-      return NextResponse.json(
-        {
-          differencePercentage: null,
-          status: null,
-          diffImageUrl: null,
-          error: `Image dimensions don't match: ${img1.width}x${img1.height} vs ${img2.width}x${img2.height}. Enable resize option to auto-resize.`,
-        } as CompareImagesResponseBody,
-        { status: 400, headers: corsHeaders }
-      );
+      const message = `Image dimensions don't match: ${img1.width}x${img1.height} vs ${img2.width}x${img2.height}. Enable resize option to auto-resize.`;
+      return errorResponse(request, "DIMENSION_MISMATCH", message, {
+        errors: [{ path: "/options/resize/enabled", message }],
+        warnings,
+      });
     }
 
     const { width, height } = img1;
     const diffData = Buffer.alloc(width * height * 4);
 
+    let ignoreMask: Uint8Array | undefined;
+    let ignoredRegionPixels = 0;
+    const ignoreRegions = options?.ignore?.regions;
+    if (ignoreRegions !== undefined) {
+      const regionError = validateIgnoreRegions(
+        ignoreRegions,
+        unscaledWidth,
+        unscaledHeight
+      );
+      if (regionError) {
+        return errorResponse(request, "INVALID_REQUEST", regionError.message, {
+          errors: [regionError],
+          warnings,
+        });
+      }
+      if (ignoreRegions.length > 0) {
+        const scaledRegions =
+          scaleFactor < 1
+            ? ignoreRegions.map((region) => scaleRegion(region, scaleFactor, width, height))
+            : ignoreRegions;
+        ignoreMask = createIgnoreMask(scaledRegions, width, height);
+        // Counted from the mask, as rounding can make scaled regions touch
+        ignoredRegionPixels = ignoreMask.reduce((sum, value) => sum + value, 0);
+      }
+    }
+
+    let ignoredColorPixels = 0;
+    let colorIgnoreMask: Uint8Array | undefined;
+    if (options?.ignore?.colors !== undefined) {
+      const ignoreColors = parseIgnoreColors(options.ignore.colors);
+      if (ignoreColors.length > 0) {
+        // Matched against the original colors, before any color space transform
+        const colorMask = createColorIgnoreMask(img1, img2, ignoreColors, ignoreMask);
+        ignoredColorPixels = colorMask.count;
+        colorIgnoreMask = colorMask.mask;
+      }
+    }
+
+    const colorSpace = options?.colorSpace;
+    const colorTransforms = getColorTransforms(colorSpace);
+
+    // Composite panels and animation frames show the images as compared,
+    // before color space and ignore masks
+    const comparedImages =
+      compositeOptions || animatedOptions
+        ? { base: Buffer.from(img1.data), actual: Buffer.from(img2.data) }
+        : undefined;
+    [img1, img2] = await deadline.run("preprocess", () =>
+      Promise.all([
+        applyColorSpace(img1, colorSpace),
+        applyColorSpace(img2, colorSpace),
+      ])
+    );
+
+    if (ignoreMask) {
+      applyIgnoreMask(img1, img2, ignoreMask);
+    }
+    if (colorIgnoreMask) {
+      applyIgnoreMask(img1, img2, colorIgnoreMask);
+    }
+
     const pixelmatchOptions: any = {
       threshold: options?.pixelmatch?.threshold ?? 0.1,
       includeAA: options?.pixelmatch?.includeAA ?? false,
@@ -449,59 +1863,252 @@ export async function POST(request: NextRequest) {
       pixelmatchOptions.diffMask = options.pixelmatch.diffMask;
     }
 
-    const numDiffPixels = pixelmatch(
-      img1.data,
-      img2.data,
-      diffData,
-      width,
-      height,
-      pixelmatchOptions
-    );
+    const totalPixels = width * height - ignoredRegionPixels;
+    // earlyExit only applies to the pixelmatch scan
+    const earlyExit = algorithm === "pixelmatch" && (options?.performance?.earlyExit ?? false);
+    const includeDiffImage =
+      !earlyExit ||
+      (options?.output?.includeDiffImage ?? false) ||
+      compositeOptions !== undefined ||
+      animatedOptions !== undefined ||
+      imageFormat !== undefined;
+    let partial = false;
+    let scannedRows = height;
+    let numDiffPixels: number;
 
-    const totalPixels = width * height;
-    const differencePercentage = (numDiffPixels / totalPixels) * 100;
+    let ssimIndex: number | undefined;
+    let ssimMask: Uint8Array | undefined;
+    let deltaEStats: CompareImagesResponseBody["deltaE"];
+    let deltaEMask: Uint8Array | undefined;
+
+    if (algorithm === "ssim") {
+      const result = await deadline.run("compare", async () =>
+        computeSsim(img1.data, img2.data, width, height, ssimWindowSize)
+      );
+      ssimIndex = result.index;
+      // Windows below the threshold count as differing pixels
+      const { mask } = createSsimMask(result, width, height, ssimThreshold);
+      if (ignoreMask) {
+        mask.forEach((value, i) => {
+          if (value && ignoreMask[i]) mask[i] = 0;
+        });
+      }
+      ssimMask = mask;
+      numDiffPixels = mask.reduce((sum, value) => sum + value, 0);
+      if (ssimIndex < 1) {
+        renderSsimHeatmap(result, img1.data, width, height, diffData);
+      }
+    } else if (algorithm === "ciede2000") {
+      const result = await deadline.run("compare", async () =>
+        computeDeltaE(img1.data, img2.data, width, height, deltaETolerance, ignoreMask)
+      );
+      deltaEStats = { mean: result.mean, max: result.max, tolerance: deltaETolerance };
+      numDiffPixels = result.diffPixels;
+      if (numDiffPixels > 0) {
+        renderDeltaEHeatmap(result, img1.data, deltaETolerance, diffData);
+        deltaEMask = Uint8Array.from(result.values, (value) =>
+          value > deltaETolerance ? 1 : 0
+        );
+      }
+    } else if (earlyExit) {
+      // A requested diff image needs the full scan, so only stop early without one
+      const maxDiffPixels = includeDiffImage
+        ? Infinity
+        : thresholdType === "pixels"
+          ? threshold
+          : Math.floor((threshold / 100) * totalPixels);
+      ({ numDiffPixels, partial, scannedRows } = await deadline.run("compare", () =>
+        compareInChunks(img1, img2, diffData, pixelmatchOptions, maxDiffPixels, signal)
+      ));
+    } else {
+      numDiffPixels = await deadline.run("compare", async () =>
+        pixelmatch(img1.data, img2.data, diffData, width, height, pixelmatchOptions)
+      );
+    }
+
+    // SSIM reports dissimilarity (1 - index) as its percentage
+    const differencePercentage =
+      ssimIndex !== undefined
+        ? Math.max(0, 1 - ssimIndex) * 100
+        : totalPixels > 0
+          ? (numDiffPixels / totalPixels) * 100
+          : 0;
 
     let diffImageUrl: string | null = null;
     let diffBounds: any = null;
+    let diffRegions: DiffRegion[] = [];
+    let comparedRegions: DiffRegion[] = [];
+    let comparedBounds: ReturnType<typeof calculateMaskBounds> | undefined;
 
     if (numDiffPixels > 0) {
-      const outputFormat = options?.output?.format || "png";
-      const quality =
-        options?.quality?.[outputFormat as keyof typeof options.quality] ||
-        (outputFormat === "png" ? 6 : 90);
+      const mask =
+        ssimMask ??
+        deltaEMask ??
+        (await deadline.run("compare", async () =>
+          createPixelmatchMask(img1, img2, pixelmatchOptions, scannedRows)
+        ));
+
+      comparedBounds = calculateMaskBounds(mask, width, height);
+      if (options?.output?.includeDiffBounds || imageFormat) {
+        diffBounds = comparedBounds;
+        if (scaleFactor < 1) {
+          diffBounds = unscaleBounds(diffBounds, scaleFactor, unscaledWidth, unscaledHeight);
+        }
+      }
 
-      let diffSharp = sharp(diffData, {
-        raw: { width, height, channels: 4 },
+      // Pixel counts stay in compared-image pixels, like diffPixels
+      comparedRegions = findDiffRegions(mask, width, height, {
+        mergeDistance: Math.round(mergeDistance * scaleFactor),
+        minPixels: minRegionPixels,
       });
+      diffRegions = comparedRegions;
+      if (scaleFactor < 1) {
+        diffRegions = comparedRegions.map((region) => ({
+          ...region,
+          bounds: unscaleBounds(region.bounds, scaleFactor, unscaledWidth, unscaledHeight),
+        }));
+      }
+    }
 
-      if (outputFormat === "jpeg") {
-        diffSharp = diffSharp.jpeg({ quality: quality as number });
-      } else if (outputFormat === "webp") {
-        diffSharp = diffSharp.webp({ quality: quality as number });
-      } else {
-        diffSharp = diffSharp.png({ compressionLevel: quality as number });
+    const hasDifferences = ssimIndex !== undefined ? ssimIndex < 1 : numDiffPixels > 0;
+
+    let heatmap: CompareImagesResponseBody["heatmap"];
+    let diffImage: Buffer | undefined;
+    // Accept: image/* overrides options.output.format
+    const outputOptions = imageFormat
+      ? { ...options, output: { ...options?.output, format: imageFormat } }
+      : options;
+
+    // A binary response always carries an image, even without differences
+    if ((hasDifferences || imageFormat) && includeDiffImage) {
+      // SSIM and CIEDE2000 already render their own heatmaps
+      if (outputMode === "heatmap" && algorithm === "pixelmatch") {
+        const maxDistance = renderHeatmap(img1.data, img2.data, diffData);
+        heatmap = {
+          metric: "yiq",
+          scale: { min: 0, max: 1 },
+          threshold: pixelmatchOptions.threshold,
+          maxDistance,
+          legend: HEATMAP_LEGEND,
+        };
       }
 
-      const diffBuffer = await diffSharp.toBuffer();
-      const base64Diff = diffBuffer.toString("base64");
-      diffImageUrl = `data:image/${outputFormat};base64,${base64Diff}`;
+      if (ignoreMask) {
+        drawIgnoredRegions(diffData, ignoreMask, width);
+      }
 
-      if (options?.output?.includeDiffBounds) {
-        diffBounds = calculateDiffBounds(diffData, width, height);
+      if (animatedOptions && comparedImages) {
+        const format = animatedOptions.format ?? "webp";
+        const frames = [comparedImages.base, comparedImages.actual];
+        if (animatedOptions.includeDiff) {
+          frames.push(diffData);
+        }
+        diffImage = await deadline.run("encode", () =>
+          renderAnimation(frames, width, height, {
+            format,
+            delay: animatedOptions.delay ?? DEFAULT_ANIMATION_DELAY,
+            quality: options?.quality?.webp ?? 90,
+            crop: animatedOptions.crop ? comparedBounds : undefined,
+          })
+        );
+        diffImageUrl = `data:image/${format};base64,${diffImage.toString("base64")}`;
+      } else {
+        diffImage = await deadline.run("encode", () =>
+          encodeOutputBuffer(sharp(diffData, { raw: { width, height, channels: 4 } }), outputOptions)
+        );
+        diffImageUrl = `data:image/${outputOptions?.output?.format || "png"};base64,${diffImage.toString("base64")}`;
       }
     }
 
+    let compositeImageUrl: string | undefined;
+    // The binary response only carries the diff image
+    if (compositeOptions && comparedImages && !imageFormat) {
+      const panels = [
+        { label: "Base", data: comparedImages.base },
+        { label: "Actual", data: comparedImages.actual },
+        { label: heatmap ? "Heatmap" : "Diff", data: diffData },
+      ];
+      const regions = compositeOptions.regions
+        ? comparedRegions.map((region) => region.bounds)
+        : [];
+      compositeImageUrl = await deadline.run("encode", () =>
+        encodeOutputImage(
+          renderComposite(panels, width, height, {
+            layout: compositeOptions.layout ?? "horizontal",
+            labels: compositeOptions.labels ?? true,
+            regions,
+          }),
+          options
+        )
+      );
+    }
+
     const processingTime = Date.now() - startTime;
 
-    const status = differencePercentage > threshold ? "Failed" : "Passed";
+    const thresholdValue = thresholdType === "pixels" ? numDiffPixels : differencePercentage;
+    const failedRules: FailRule[] = [];
+    if (ssimIndex !== undefined) {
+      if (ssimIndex < ssimThreshold) failedRules.push("ssim.threshold");
+    } else if (thresholdValue > threshold) {
+      failedRules.push("threshold");
+    }
+    // A single large change fails even when the global percentage is low
+    const { maxPixels, maxWidth, maxHeight } = options?.regions ?? {};
+    if (maxPixels !== undefined && diffRegions.some((region) => region.pixels > maxPixels)) {
+      failedRules.push("regions.maxPixels");
+    }
+    if (maxWidth !== undefined && diffRegions.some((region) => region.bounds.width > maxWidth)) {
+      failedRules.push("regions.maxWidth");
+    }
+    if (maxHeight !== undefined && diffRegions.some((region) => region.bounds.height > maxHeight)) {
+      failedRules.push("regions.maxHeight");
+    }
+
+    // Between warnThreshold and threshold the result passes but needs review
+    const warned =
+      ssimIndex === undefined && warnThreshold !== undefined && thresholdValue > warnThreshold;
 
     const response: CompareImagesResponseBody = {
       differencePercentage,
-      status,
+      status: failedRules.length > 0 ? "Failed" : warned ? "Warning" : "Passed",
       diffImageUrl,
       error: null,
+      diffPixels: numDiffPixels,
+      failedRules,
     };
 
+    if (warnings.length > 0) {
+      response.warnings = warnings;
+    }
+
+    if (earlyExit) {
+      response.partial = partial;
+    }
+
+    if (scaleFactor < 1) {
+      response.scaleFactor = scaleFactor;
+    }
+
+    if (deltaEStats) {
+      response.deltaE = deltaEStats;
+    }
+
+    if (heatmap) {
+      response.heatmap = heatmap;
+    }
+
+    if (compositeImageUrl) {
+      response.compositeImageUrl = compositeImageUrl;
+    }
+
+    if (ssimIndex !== undefined) {
+      response.ssim = {
+        index: ssimIndex,
+        threshold: ssimThreshold,
+        windowSize: ssimWindowSize,
+      };
+    }
+
     if (options?.output?.includeMetadata) {
       response.metadata = {
         baseImage: {
@@ -518,7 +2125,10 @@ export async function POST(request: NextRequest) {
           totalPixels,
           diffPixels: numDiffPixels,
           processingTime,
-          algorithm: "pixelmatch",
+          algorithm,
+          ignoredRegionPixels,
+          ignoredColorPixels,
+          colorTransforms,
         },
       };
     }
@@ -527,6 +2137,12 @@ export async function POST(request: NextRequest) {
       response.diffBounds = diffBounds;
     }
 
+    response.diffRegions = diffRegions;
+
+    if (resizeInfo) {
+      response.resize = resizeInfo;
+    }
+
     if (options?.output?.includeOriginals) {
       const origFormat = options?.output?.format || "png";
       response.processedImages = {
@@ -539,46 +2155,58 @@ export async function POST(request: NextRequest) {
       };
     }
 
+    if (imageFormat && diffImage) {
+      console.log('[API] Comparison successful. Difference:', response.differencePercentage, '%. Responding with image/' + imageFormat);
+      const headers: Record<string, string> = {
+        ...corsHeaders,
+        "Access-Control-Expose-Headers": IMAGE_RESPONSE_HEADERS.join(", "),
+        "Content-Type": `image/${imageFormat}`,
+        "X-Status": response.status as string,
+        "X-Difference-Percentage": String(differencePercentage),
+        "X-Diff-Pixels": String(numDiffPixels),
+        "X-Failed-Rules": failedRules.join(","),
+      };
+      if (diffBounds) {
+        headers["X-Diff-Bounds"] = `${diffBounds.left},${diffBounds.top},${diffBounds.width},${diffBounds.height}`;
+      }
+      return new NextResponse(new Uint8Array(diffImage), { status: 200, headers });
+    }
+
     console.log('[API] Comparison successful. Difference:', response.differencePercentage, '%');
     return NextResponse.json(response, { status: 200, headers: corsHeaders });
   } catch (e: unknown) {
     console.error('[API] Error in /api/compare-images:', e);
-    let errorMessage = "An unexpected error occurred during image comparison.";
-    let statusCode = 500;
 
-    if (e instanceof SyntaxError) {
+    if (e instanceof ProcessingTimeoutError) {
+      return errorResponse(
+        request,
+        "TIMEOUT",
+        `${e.message} Increase options.performance.timeout or use smaller images.`,
+        { timeout: { stage: e.stage, limit: e.limit, elapsed: e.elapsed } }
+      );
+    }
+
+    let code: ErrorCode = "INTERNAL_ERROR";
+    let errorMessage = "An unexpected error occurred during image comparison.";
+    if (e instanceof CodedError) {
+      code = e.code;
+      errorMessage = e.message;
+    } else if (e instanceof SyntaxError) {
+      code = "INVALID_JSON";
       errorMessage = "Invalid JSON payload provided.";
-      statusCode = 400;
+    } else if (e instanceof RangeError) {
+      // Buffer and typed array allocations fail with a RangeError
+      code = "OUT_OF_MEMORY";
+      errorMessage = "Server ran out of memory processing images. Please use smaller images.";
     } else if (e instanceof Error) {
-      const errorMsgLower = e.message.toLowerCase();
-      
-      if (errorMsgLower.includes('body') || errorMsgLower.includes('payload') || 
-          errorMsgLower.includes('size') || errorMsgLower.includes('too large') ||
-          errorMsgLower.includes('entity too large')) {
-        errorMessage = 'Request payload too large. Image data exceeds 6MB Netlify limit. Please use smaller images.';
-        statusCode = 413;
-      } else if (errorMsgLower.includes('timeout') || errorMsgLower.includes('timed out')) {
-        errorMessage = 'Request timed out. Images might be too large to process. Please try smaller images.';
-        statusCode = 504;
-      } else if (errorMsgLower.includes('memory') || errorMsgLower.includes('heap')) {
-        errorMessage = 'Server ran out of memory processing images. Please use smaller images.';
-        statusCode = 500;
-      } else if (errorMsgLower.includes('decode') || errorMsgLower.includes('invalid image')) {
-        errorMessage = `Invalid image format: ${e.message}`;
-        statusCode = 400;
-      } else {
-        errorMessage = e.message;
-      }
+      errorMessage = e.message;
     }
 
-    return NextResponse.json(
-      {
-        differencePercentage: null,
-        status: null,
-        diffImageUrl: null,
-        error: errorMessage,
-      } as CompareImagesResponseBody,
-      { status: statusCode, headers: corsHeaders }
-    );
+    return errorResponse(request, code, errorMessage, {
+      // Bad payloads and undecodable images are not tied to a single field
+      ...(ERROR_CODES[code].status === 400 && { errors: [{ path: "", message: errorMessage }] }),
+    });
+  } finally {
+    deadline?.clear();
   }
 }
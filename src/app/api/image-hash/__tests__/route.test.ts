@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from "vitest";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { NextRequest } from "next/server";
+import sharp from "sharp";
+import { POST, OPTIONS } from "../route";
+
+const createPng = () =>
+  sharp({
+    create: { width: 32, height: 32, channels: 3, background: { r: 40, g: 120, b: 200 } },
+  })
+    .composite([
+      {
+        input: Buffer.alloc(16 * 16 * 3, 255),
+        raw: { width: 16, height: 16, channels: 3 },
+        left: 0,
+        top: 0,
+      },
+    ])
+    .png()
+    .toBuffer();
+
+const createRequest = (body: any) =>
+  new NextRequest("http://localhost/api/image-hash", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("POST /api/image-hash", () => {
+  it("should return 400 if imageSource is missing", async () => {
+    const response = await POST(createRequest({}));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain("required");
+  });
+
+  it.each([null, [], "image"])("should return 400 for a %j body", async (body) => {
+    const response = await POST(createRequest(body));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("request body must be an object.");
+  });
+
+  it("should return aHash, dHash and pHash for a data URI", async () => {
+    const png = await createPng();
+    const response = await POST(
+      createRequest({ imageSource: `data:image/png;base64,${png.toString("base64")}` })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.error).toBeNull();
+    expect(Object.keys(data.hashes)).toEqual(["aHash", "dHash", "pHash"]);
+  });
+
+  it("should hash URL and data URI sources identically", async () => {
+    vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+    const png = await createPng();
+    const server = createServer((_req, res) => {
+      res.writeHead(200, { "content-type": "image/png" });
+      res.end(png);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const fromUrl = await POST(createRequest({ imageSource: `http://127.0.0.1:${port}/image.png` }));
+      const fromDataUri = await POST(
+        createRequest({ imageSource: `data:image/png;base64,${png.toString("base64")}` })
+      );
+
+      expect((await fromUrl.json()).hashes).toEqual((await fromDataUri.json()).hashes);
+    } finally {
+      vi.unstubAllEnvs();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should return 504 when an image URL stalls", async () => {
+    vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+    const timeout = AbortSignal.timeout.bind(AbortSignal);
+    vi.spyOn(AbortSignal, "timeout").mockImplementation(() => timeout(100));
+    const server = createServer(() => {});
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const response = await POST(createRequest({ imageSource: `http://127.0.0.1:${port}/image.png` }));
+
+      expect(response.status).toBe(504);
+      expect((await response.json()).error).toContain("did not respond");
+    } finally {
+      vi.restoreAllMocks();
+      vi.unstubAllEnvs();
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should return 400 for undecodable images", async () => {
+    const response = await POST(
+      createRequest({ imageSource: `data:image/png;base64,${Buffer.from("nope").toString("base64")}` })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("decode");
+  });
+
+  it("should handle OPTIONS preflight", async () => {
+    const response = await OPTIONS();
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get("access-control-allow-methods")).toContain("POST");
+  });
+});
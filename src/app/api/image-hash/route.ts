@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { CodedError, ERROR_CODES } from "@/lib/errors";
+import { computeImageHashes, type ImageHashes } from "@/lib/image-hash";
+import { base64ToBuffer } from "@/lib/image-source";
+
+interface ImageHashRequestBody {
+  imageSource?: string;
+}
+
+interface ImageHashResponseBody {
+  hashes: ImageHashes | null;
+  error: string | null;
+}
+
+const MAX_REQUEST_SIZE = 6 * 1024 * 1024;
+// Bounds fetching an image URL, so a stalled source cannot hang the request
+const FETCH_TIMEOUT = 30000;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": process.env.ALLOWED_ORIGIN || "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  console.log('[API] Image hash request received');
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT);
+
+  try {
+    const contentLength = request.headers.get('content-length');
+    if (contentLength && parseInt(contentLength) > MAX_REQUEST_SIZE) {
+      return NextResponse.json(
+        {
+          hashes: null,
+          error: `Request size (${(parseInt(contentLength) / 1024 / 1024).toFixed(2)}MB) exceeds Netlify's 6MB limit. Please use smaller images.`,
+        } as ImageHashResponseBody,
+        { status: 413, headers: corsHeaders }
+      );
+    }
+
+    const body: unknown = await request.json();
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { hashes: null, error: "request body must be an object." } as ImageHashResponseBody,
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const { imageSource } = body as ImageHashRequestBody;
+
+    if (!imageSource || typeof imageSource !== "string") {
+      return NextResponse.json(
+        {
+          hashes: null,
+          error: "imageSource is required.",
+        } as ImageHashResponseBody,
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const buffer = await base64ToBuffer(imageSource, signal);
+    const hashes = await computeImageHashes(buffer);
+
+    return NextResponse.json(
+      { hashes, error: null } as ImageHashResponseBody,
+      { status: 200, headers: corsHeaders }
+    );
+  } catch (e: unknown) {
+    console.error('[API] Error in /api/image-hash:', e);
+    let errorMessage = "An unexpected error occurred while hashing the image.";
+    let statusCode = 500;
+
+    if (e instanceof SyntaxError) {
+      errorMessage = "Invalid JSON payload provided.";
+      statusCode = 400;
+    } else if (signal.aborted) {
+      errorMessage = `Image source did not respond within ${FETCH_TIMEOUT}ms.`;
+      statusCode = ERROR_CODES.TIMEOUT.status;
+    } else if (e instanceof CodedError) {
+      errorMessage = e.message;
+      statusCode = ERROR_CODES[e.code].status;
+    } else if (e instanceof Error) {
+      errorMessage = e.message;
+    }
+
+    return NextResponse.json(
+      { hashes: null, error: errorMessage } as ImageHashResponseBody,
+      { status: statusCode, headers: corsHeaders }
+    );
+  }
+}
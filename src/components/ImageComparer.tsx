@@ -46,6 +46,7 @@ export default function ImageComparer() {
     number | null
   >(null);
   const [threshold, setThreshold] = useState<number>(0);
+  const [warnThreshold, setWarnThreshold] = useState<number | null>(null);
 
   const [errorColorRed, setErrorColorRed] = useState<number>(255);
   const [errorColorGreen, setErrorColorGreen] = useState<number>(0);
@@ -339,6 +340,7 @@ Please verify the URLs/files and ensure they point directly to image files. (Det
     setDiffImageUrl(null);
     setDifferencePercentage(null);
     setThreshold(0);
+    setWarnThreshold(null);
 
     setErrorColorRed(255);
     setErrorColorGreen(0);
@@ -491,6 +493,36 @@ Please verify the URLs/files and ensure they point directly to image files. (Det
             className="mt-1"
             aria-label="Difference Threshold Percentage"
           />
+          <Label
+            htmlFor="warnThreshold"
+            className="text-sm font-medium flex items-center"
+          >
+            <Filter className="mr-2 h-4 w-4" />
+            Warning Threshold (%) (Optional)
+          </Label>
+          <Input
+            id="warnThreshold"
+            type="number"
+            placeholder="Off (default)"
+            step="0.01"
+            min="0"
+            max="100"
+            value={warnThreshold === null ? "" : warnThreshold.toString()}
+            onChange={(e) => {
+              const val = e.target.value;
+              // Empty input turns the warning band off
+              if (val === "") {
+                setWarnThreshold(null);
+                return;
+              }
+              let numVal = parseFloat(val);
+              if (isNaN(numVal) || numVal < 0) numVal = 0;
+              if (numVal > 100) numVal = 100;
+              setWarnThreshold(numVal);
+            }}
+            className="mt-1"
+            aria-label="Warning Threshold Percentage"
+          />
         </div>
 
         <Accordion type="single" collapsible className="mb-6">
@@ -907,12 +939,17 @@ Please verify the URLs/files and ensure they point directly to image files. (Det
             </span>
           </p>
           <p className="text-sm text-muted-foreground mb-2">
-            (Current Threshold: {threshold.toFixed(2)}%)
+            (Current Threshold: {threshold.toFixed(2)}%
+            {warnThreshold !== null && `, Warning Above: ${warnThreshold.toFixed(2)}%`})
           </p>
           {differencePercentage > threshold ? (
             <p className="text-lg text-destructive font-semibold mt-1">
               Status: Failed
             </p>
+          ) : warnThreshold !== null && differencePercentage > warnThreshold ? (
+            <p className="text-lg text-warning font-semibold mt-1">
+              Status: Warning
+            </p>
           ) : (
             <p className="text-lg text-success font-semibold mt-1">
               Status: Passed
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { renderAnimation } from "../animation";
+
+const solid = (width: number, height: number, color: [number, number, number]) => {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set([...color, 255], i * 4);
+  return data;
+};
+
+const framePixel = async (animation: Buffer, page: number) => {
+  const data = await sharp(animation, { page }).raw().toBuffer();
+  return Array.from(data.subarray(0, 3));
+};
+
+describe("animation", () => {
+  describe("renderAnimation", () => {
+    const frames = [solid(16, 12, [255, 0, 0]), solid(16, 12, [0, 0, 255])];
+
+    it("should produce an animated WebP with one page per frame", async () => {
+      const animation = await renderAnimation(frames, 16, 12, {
+        format: "webp",
+        delay: 400,
+        quality: 90,
+      });
+      const metadata = await sharp(animation, { animated: true }).metadata();
+
+      expect(metadata.format).toBe("webp");
+      expect(metadata.pages).toBe(2);
+      expect(metadata.width).toBe(16);
+      expect(metadata.pageHeight).toBe(12);
+      expect(metadata.delay).toEqual([400, 400]);
+      expect(metadata.loop).toBe(0);
+
+      const [r1, , b1] = await framePixel(animation, 0);
+      const [r2, , b2] = await framePixel(animation, 1);
+      expect(r1).toBeGreaterThan(200);
+      expect(b1).toBeLessThan(50);
+      expect(b2).toBeGreaterThan(200);
+      expect(r2).toBeLessThan(50);
+    });
+
+    it("should produce an animated GIF and crop every frame", async () => {
+      const animation = await renderAnimation(frames, 16, 12, {
+        format: "gif",
+        delay: 250,
+        quality: 90,
+        crop: { left: 2, top: 3, width: 5, height: 4 },
+      });
+      const metadata = await sharp(animation, { animated: true }).metadata();
+
+      expect(metadata.format).toBe("gif");
+      expect(metadata.pages).toBe(2);
+      expect(metadata.width).toBe(5);
+      expect(metadata.pageHeight).toBe(4);
+      expect(metadata.delay).toEqual([250, 250]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  baselineStoreFromEnv,
+  FileSystemBaselineStore,
+  parseBaselineId,
+  type BaselineInput,
+} from "../baseline-store";
+
+const input = (name: string, tag: string, bytes = "png"): BaselineInput => ({
+  name,
+  tag,
+  contentType: "image/png",
+  width: 10,
+  height: 10,
+  image: Buffer.from(bytes),
+});
+
+describe("baseline-store", () => {
+  describe("parseBaselineId", () => {
+    it("should split name and tag", () => {
+      expect(parseBaselineId("checkout-page:main")).toEqual({ name: "checkout-page", tag: "main" });
+    });
+
+    it.each(["checkout-page", "a:b:c", "../etc:passwd", "a:..", ":main", "a b:main"])(
+      "should reject %s",
+      (id) => {
+        expect(parseBaselineId(id)).toBeNull();
+      }
+    );
+  });
+
+  describe("FileSystemBaselineStore", () => {
+    let dir: string;
+    let store: FileSystemBaselineStore;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "baselines-"));
+      store = new FileSystemBaselineStore(dir);
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should store and read back a baseline", async () => {
+      const metadata = await store.put(input("home", "main"));
+
+      expect(metadata).toMatchObject({ id: "home:main", name: "home", tag: "main", size: 3 });
+      const baseline = await store.get("home:main");
+      expect(baseline?.metadata).toEqual(metadata);
+      expect(baseline?.image.toString()).toBe("png");
+    });
+
+    it("should replace a baseline with the same name and tag", async () => {
+      await store.put(input("home", "main", "old"));
+      await store.put(input("home", "main", "newer"));
+
+      expect((await store.get("home:main"))?.image.toString()).toBe("newer");
+      expect(await store.list()).toHaveLength(1);
+      // No temporary files are left behind
+      expect((await readdir(path.join(dir, "home"))).sort()).toEqual(["main.image", "main.json"]);
+    });
+
+    it("should survive concurrent uploads of the same baseline", async () => {
+      const writes = ["a", "b", "c", "d", "e", "f", "g", "h"];
+
+      const results = await Promise.allSettled(writes.map((bytes) => store.put(input("home", "main", bytes))));
+
+      expect(results.map(({ status }) => status)).toEqual(writes.map(() => "fulfilled"));
+      expect(writes).toContain((await store.get("home:main"))?.image.toString());
+      expect((await readdir(path.join(dir, "home"))).sort()).toEqual(["main.image", "main.json"]);
+    });
+
+    it("should list baselines filtered by name and tag", async () => {
+      await store.put(input("home", "main"));
+      await store.put(input("home", "feature-x"));
+      await store.put(input("cart", "main"));
+
+      expect((await store.list()).map(({ id }) => id)).toEqual([
+        "cart:main",
+        "home:feature-x",
+        "home:main",
+      ]);
+      expect((await store.list({ name: "home" })).map(({ id }) => id)).toEqual([
+        "home:feature-x",
+        "home:main",
+      ]);
+      expect((await store.list({ tag: "main" })).map(({ id }) => id)).toEqual([
+        "cart:main",
+        "home:main",
+      ]);
+    });
+
+    it("should delete a baseline", async () => {
+      await store.put(input("home", "main"));
+
+      expect(await store.delete("home:main")).toBe(true);
+      expect(await store.get("home:main")).toBeNull();
+      expect(await store.delete("home:main")).toBe(false);
+    });
+
+    it("should treat missing and invalid ids as not found", async () => {
+      expect(await store.get("home:main")).toBeNull();
+      expect(await store.get("../outside:main")).toBeNull();
+      expect(await store.list()).toEqual([]);
+    });
+  });
+
+  describe("baselineStoreFromEnv", () => {
+    it("should reject unknown backends", () => {
+      expect(() => baselineStoreFromEnv({ BASELINE_STORE: "s3" })).toThrow("Unsupported BASELINE_STORE");
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { renderComposite } from "../composite";
+
+const solid = (width: number, height: number, color: [number, number, number, number]) => {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set(color, i * 4);
+  return data;
+};
+
+describe("composite", () => {
+  describe("renderComposite", () => {
+    it("should lay panels out horizontally with labels", async () => {
+      const panels = [
+        { label: "Base", data: solid(10, 10, [255, 0, 0, 255]) },
+        { label: "Actual", data: solid(10, 10, [0, 255, 0, 255]) },
+      ];
+
+      const { data, info } = await renderComposite(panels, 10, 10, {
+        layout: "horizontal",
+        labels: true,
+        regions: [],
+      })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      const at = (x: number, y: number) => {
+        const idx = (y * info.width + x) * info.channels;
+        return Array.from(data.subarray(idx, idx + 3));
+      };
+
+      expect(info.width).toBe(36);
+      expect(info.height).toBe(38);
+      expect(at(5, 33)).toEqual([255, 0, 0]);
+      expect(at(13, 33)).toEqual([255, 255, 255]);
+      expect(at(31, 33)).toEqual([0, 255, 0]);
+    });
+
+    it("should stack panels vertically and show transparent pixels as white", async () => {
+      const panels = [
+        { label: "Base", data: solid(8, 4, [0, 0, 0, 255]) },
+        { label: "Diff", data: solid(8, 4, [0, 0, 0, 0]) },
+      ];
+
+      const { data, info } = await renderComposite(panels, 8, 4, {
+        layout: "vertical",
+        labels: false,
+        regions: [],
+      })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      expect(info.width).toBe(8);
+      expect(info.height).toBe(4 + 16 + 4);
+      expect(Array.from(data.subarray(0, 3))).toEqual([0, 0, 0]);
+      const last = (info.width * info.height - 1) * info.channels;
+      expect(Array.from(data.subarray(last, last + 3))).toEqual([255, 255, 255]);
+    });
+  });
+});
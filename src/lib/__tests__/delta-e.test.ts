@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { ciede2000, computeDeltaE, renderDeltaEHeatmap, rgbToLab } from "../delta-e";
+
+describe("delta-e", () => {
+  describe("rgbToLab", () => {
+    it("should convert white and black", () => {
+      const white = rgbToLab(255, 255, 255);
+      const black = rgbToLab(0, 0, 0);
+
+      expect(white[0]).toBeCloseTo(100, 2);
+      expect(white[1]).toBeCloseTo(0, 2);
+      expect(white[2]).toBeCloseTo(0, 2);
+      expect(black).toEqual([0, 0, 0]);
+    });
+
+    it("should convert pure red", () => {
+      const [l, a, b] = rgbToLab(255, 0, 0);
+
+      expect(l).toBeCloseTo(53.24, 1);
+      expect(a).toBeCloseTo(80.09, 1);
+      expect(b).toBeCloseTo(67.2, 1);
+    });
+  });
+
+  describe("ciede2000", () => {
+    // Reference pairs from Sharma, Wu and Dalal (2005)
+    it.each([
+      [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+      [[50, 2.5, 0], [50, 0, -2.5], 4.3065],
+      [[50, 2.5, 0], [73, 25, -18], 27.1492],
+      [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+      [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+    ] as const)("should match reference pair %#", (lab1, lab2, expected) => {
+      expect(ciede2000([...lab1], [...lab2])).toBeCloseTo(expected, 4);
+    });
+
+    it("should be zero for identical colors", () => {
+      expect(ciede2000([40, 10, -10], [40, 10, -10])).toBe(0);
+    });
+  });
+
+  describe("computeDeltaE", () => {
+    const pixels = (...colors: number[][]) => Uint8Array.from(colors.flatMap((c) => [...c, 255]));
+
+    it("should count pixels above the tolerance and report mean and max", () => {
+      const base = pixels([255, 255, 255], [255, 255, 255], [255, 255, 255], [255, 255, 255]);
+      const actual = pixels([255, 255, 255], [254, 254, 254], [0, 0, 0], [255, 255, 255]);
+      const result = computeDeltaE(base, actual, 2, 2, 2.3);
+
+      expect(result.diffPixels).toBe(1);
+      expect(result.max).toBeCloseTo(100, 0);
+      expect(result.mean).toBeCloseTo((result.values[1] + result.values[2]) / 4);
+    });
+
+    it("should skip masked pixels", () => {
+      const base = pixels([255, 255, 255], [255, 255, 255]);
+      const actual = pixels([0, 0, 0], [255, 255, 255]);
+      const result = computeDeltaE(base, actual, 2, 1, 2.3, Uint8Array.from([1, 0]));
+
+      expect(result.diffPixels).toBe(0);
+      expect(result.max).toBe(0);
+    });
+  });
+
+  describe("renderDeltaEHeatmap", () => {
+    it("should color pixels by delta E magnitude", () => {
+      const base = Uint8Array.from([255, 255, 255, 255, 255, 255, 255, 255]);
+      const actual = Uint8Array.from([255, 255, 255, 255, 0, 0, 0, 255]);
+      const result = computeDeltaE(base, actual, 2, 1, 2.3);
+      const output = new Uint8Array(8);
+      renderDeltaEHeatmap(result, base, 2.3, output);
+
+      expect([...output.slice(0, 4)]).toEqual([255, 255, 255, 255]);
+      expect([...output.slice(4)]).toEqual([255, 0, 0, 255]);
+    });
+  });
+});
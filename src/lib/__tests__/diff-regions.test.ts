@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { findDiffRegions } from "../diff-regions";
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+const createMask = (width: number, height: number, rects: Rect[]) => {
+  const mask = new Uint8Array(width * height);
+  for (const rect of rects) {
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) {
+        mask[y * width + x] = 1;
+      }
+    }
+  }
+  return mask;
+};
+
+describe("diff-regions", () => {
+  describe("findDiffRegions", () => {
+    it("should return no regions for an empty mask", () => {
+      expect(findDiffRegions(new Uint8Array(100), 10, 10)).toEqual([]);
+    });
+
+    it("should keep blobs in opposite corners apart, largest first", () => {
+      const mask = createMask(100, 100, [
+        { x: 0, y: 0, width: 5, height: 5 },
+        { x: 90, y: 90, width: 10, height: 10 },
+      ]);
+      const regions = findDiffRegions(mask, 100, 100);
+
+      expect(regions).toHaveLength(2);
+      expect(regions[0]).toEqual({
+        bounds: { left: 90, top: 90, right: 99, bottom: 99, width: 10, height: 10 },
+        pixels: 100,
+        share: 0.8,
+      });
+      expect(regions[1]).toEqual({
+        bounds: { left: 0, top: 0, right: 4, bottom: 4, width: 5, height: 5 },
+        pixels: 25,
+        share: 0.2,
+      });
+    });
+
+    it("should join diagonally touching pixels", () => {
+      const mask = createMask(4, 4, [
+        { x: 0, y: 0, width: 1, height: 1 },
+        { x: 1, y: 1, width: 1, height: 1 },
+        { x: 2, y: 2, width: 1, height: 1 },
+      ]);
+
+      expect(findDiffRegions(mask, 4, 4)).toHaveLength(1);
+    });
+
+    it("should merge blobs within mergeDistance", () => {
+      const mask = createMask(40, 40, [
+        { x: 0, y: 0, width: 5, height: 5 },
+        { x: 8, y: 0, width: 5, height: 5 },
+        { x: 0, y: 9, width: 5, height: 5 },
+        { x: 30, y: 30, width: 5, height: 5 },
+      ]);
+
+      expect(findDiffRegions(mask, 40, 40, { mergeDistance: 2 })).toHaveLength(4);
+
+      const regions = findDiffRegions(mask, 40, 40, { mergeDistance: 4 });
+      expect(regions).toHaveLength(2);
+      expect(regions[0].pixels).toBe(75);
+      expect(regions[0].bounds).toEqual({
+        left: 0,
+        top: 0,
+        right: 12,
+        bottom: 13,
+        width: 13,
+        height: 14,
+      });
+    });
+
+    it("should merge U-shaped blobs that only join further down", () => {
+      const mask = createMask(10, 10, [
+        { x: 0, y: 0, width: 1, height: 10 },
+        { x: 9, y: 0, width: 1, height: 10 },
+        { x: 0, y: 9, width: 10, height: 1 },
+      ]);
+      const regions = findDiffRegions(mask, 10, 10);
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].pixels).toBe(28);
+      expect(regions[0].share).toBe(1);
+    });
+
+    it("should drop regions below minPixels without changing shares", () => {
+      const mask = createMask(20, 20, [
+        { x: 0, y: 0, width: 1, height: 1 },
+        { x: 10, y: 10, width: 3, height: 3 },
+      ]);
+      const regions = findDiffRegions(mask, 20, 20, { minPixels: 2 });
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].pixels).toBe(9);
+      expect(regions[0].share).toBeCloseTo(0.9);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { colorDistance, HEATMAP_LEGEND, heatmapColor, renderHeatmap } from "../heatmap";
+
+const pixel = (r: number, g: number, b: number, a = 255) => new Uint8Array([r, g, b, a]);
+
+describe("heatmap", () => {
+  describe("colorDistance", () => {
+    it("should return 0 for identical pixels", () => {
+      expect(colorDistance(pixel(10, 20, 30), pixel(10, 20, 30), 0)).toBe(0);
+    });
+
+    it("should rank a slight shift below a completely different color", () => {
+      const slight = colorDistance(pixel(200, 200, 200), pixel(190, 190, 190), 0);
+      const complete = colorDistance(pixel(255, 255, 255), pixel(0, 0, 0), 0);
+
+      expect(slight).toBeGreaterThan(0);
+      expect(slight).toBeLessThan(0.1);
+      expect(complete).toBeGreaterThan(0.9);
+      expect(complete).toBeLessThanOrEqual(1);
+    });
+
+    it("should blend transparent pixels over white", () => {
+      expect(colorDistance(pixel(0, 0, 0, 0), pixel(255, 255, 255), 0)).toBe(0);
+    });
+  });
+
+  describe("heatmapColor", () => {
+    it("should match the legend stops and interpolate between them", () => {
+      for (const stop of HEATMAP_LEGEND) {
+        expect(heatmapColor(stop.value)).toEqual(stop.color);
+      }
+      expect(heatmapColor(0.125)).toEqual([0, 128, 255]);
+      expect(heatmapColor(2)).toEqual([255, 0, 0]);
+    });
+  });
+
+  describe("renderHeatmap", () => {
+    it("should paint changed pixels and fade unchanged ones", () => {
+      const img1 = new Uint8Array([0, 0, 0, 255, 255, 255, 255, 255]);
+      const img2 = new Uint8Array([0, 0, 0, 255, 0, 0, 0, 255]);
+      const output = new Uint8Array(8);
+
+      const maxDistance = renderHeatmap(img1, img2, output);
+
+      expect(Array.from(output.subarray(0, 4))).toEqual([230, 230, 230, 255]);
+      expect(Array.from(output.subarray(4, 8))).toEqual([...heatmapColor(maxDistance), 255]);
+      expect(maxDistance).toBeGreaterThan(0.9);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { computeImageHashes, hammingDistance } from "../image-hash";
+
+// Smooth blobs of light and dark, like a downscaled photo
+const createScene = (width: number, height: number, flip = false) => {
+  const data = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = (flip ? width - 1 - x : x) / width;
+      const v = y / height;
+      const value =
+        128 + 60 * Math.sin(u * 5 + 1) * Math.cos(v * 3) + 50 * Math.sin((u + v) * 4);
+      data.fill(Math.round(value), (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(data, { raw: { width, height, channels: 3 } }).png().toBuffer();
+};
+
+describe("image-hash", () => {
+  describe("computeImageHashes", () => {
+    it("should return 64-bit hex hashes", async () => {
+      const hashes = await computeImageHashes(await createScene(64, 64));
+
+      expect(hashes.aHash).toMatch(/^[0-9a-f]{16}$/);
+      expect(hashes.dHash).toMatch(/^[0-9a-f]{16}$/);
+      expect(hashes.pHash).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it("should give near-identical hashes for resized and brightened copies", async () => {
+      const source = await createScene(128, 128);
+      const original = await computeImageHashes(source);
+      const variant = await computeImageHashes(
+        await sharp(source).resize(96, 96).modulate({ brightness: 1.05 }).png().toBuffer()
+      );
+
+      expect(hammingDistance(original.pHash, variant.pHash)).toBeLessThanOrEqual(8);
+      expect(hammingDistance(original.dHash, variant.dHash)).toBeLessThanOrEqual(8);
+    });
+
+    it("should give distant hashes for different images", async () => {
+      const original = await computeImageHashes(await createScene(64, 64));
+      const mirrored = await computeImageHashes(await createScene(64, 64, true));
+
+      expect(hammingDistance(original.pHash, mirrored.pHash)).toBeGreaterThan(16);
+      expect(hammingDistance(original.dHash, mirrored.dHash)).toBeGreaterThan(16);
+    });
+
+    it("should throw a decode error for invalid data", async () => {
+      await expect(computeImageHashes(Buffer.from("not an image"))).rejects.toThrow(
+        "Failed to decode image"
+      );
+    });
+  });
+
+  describe("hammingDistance", () => {
+    it("should count differing bits", () => {
+      expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+      expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+      expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer, type RequestListener } from "http";
+import type { AddressInfo } from "net";
+import { base64ToBuffer, fetchLimitsFromEnv, isBlockedAddress } from "../image-source";
+
+const withServer = async (handler: RequestListener, run: (url: string) => Promise<void>) => {
+  const server = createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await run(`http://127.0.0.1:${port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+};
+
+describe("image-source", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("isBlockedAddress", () => {
+    it.each([
+      "10.1.2.3",
+      "127.0.0.1",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "::1",
+      "fe80::1",
+      "fd00::1",
+      "::ffff:127.0.0.1",
+      "::127.0.0.1",
+      "64:ff9b::7f00:1",
+      "64:ff9b:1::a9fe:a9fe",
+      "::ffff:0:a9fe:a9fe",
+      "2002:7f00:1::1",
+    ])("should block %s", (address) => {
+      expect(isBlockedAddress(address)).toBe(true);
+    });
+
+    it.each(["8.8.8.8", "2606:4700:4700::1111", "example.com"])("should allow %s", (address) => {
+      expect(isBlockedAddress(address)).toBe(false);
+    });
+  });
+
+  describe("fetchLimitsFromEnv", () => {
+    it("should use the defaults", () => {
+      expect(fetchLimitsFromEnv({})).toEqual({
+        protocols: ["http:", "https:"],
+        allowPrivateNetworks: false,
+        maxRedirects: 3,
+        maxBytes: 10 * 1024 * 1024,
+        contentTypes: ["image/*"],
+      });
+    });
+
+    it("should parse configured limits and ignore invalid numbers", () => {
+      expect(
+        fetchLimitsFromEnv({
+          IMAGE_FETCH_PROTOCOLS: "https",
+          IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS: "true",
+          IMAGE_FETCH_MAX_REDIRECTS: "0",
+          IMAGE_FETCH_MAX_BYTES: "-5",
+          IMAGE_FETCH_CONTENT_TYPES: "image/png, Image/JPEG",
+        })
+      ).toEqual({
+        protocols: ["https:"],
+        allowPrivateNetworks: true,
+        maxRedirects: 0,
+        maxBytes: 10 * 1024 * 1024,
+        contentTypes: ["image/png", "image/jpeg"],
+      });
+    });
+  });
+
+  describe("base64ToBuffer", () => {
+    it("should decode data URIs", async () => {
+      expect((await base64ToBuffer("data:image/png;base64,aGk=")).toString()).toBe("hi");
+    });
+
+    it.each([
+      ["not a url", "SOURCE_URL_INVALID"],
+      ["file:///etc/passwd", "SOURCE_PROTOCOL_NOT_ALLOWED"],
+      ["ftp://example.com/image.png", "SOURCE_PROTOCOL_NOT_ALLOWED"],
+      ["http://127.0.0.1/image.png", "SOURCE_ADDRESS_BLOCKED"],
+      ["http://[::1]/image.png", "SOURCE_ADDRESS_BLOCKED"],
+      ["http://localhost/image.png", "SOURCE_ADDRESS_BLOCKED"],
+    ])("should reject %s with %s", async (source, code) => {
+      await expect(base64ToBuffer(source)).rejects.toMatchObject({ code });
+    });
+
+    it("should not reveal the resolved address", async () => {
+      await expect(base64ToBuffer("http://localhost/image.png")).rejects.toMatchObject({
+        message: "Image source localhost does not resolve to a public address.",
+      });
+    });
+
+    it("should reject protocols removed through IMAGE_FETCH_PROTOCOLS", async () => {
+      vi.stubEnv("IMAGE_FETCH_PROTOCOLS", "https");
+
+      await expect(base64ToBuffer("http://example.com/image.png")).rejects.toMatchObject({
+        code: "SOURCE_PROTOCOL_NOT_ALLOWED",
+      });
+    });
+
+    describe("with private networks allowed", () => {
+      it("should fetch an image and follow redirects", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+
+        await withServer(
+          (req, res) => {
+            if (req.url === "/old.png") {
+              res.writeHead(302, { location: "/image.png" }).end();
+              return;
+            }
+            res.writeHead(200, { "content-type": "image/png" }).end("png");
+          },
+          async (url) => {
+            expect((await base64ToBuffer(`${url}/old.png`)).toString()).toBe("png");
+          }
+        );
+      });
+
+      it("should stop after IMAGE_FETCH_MAX_REDIRECTS", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+        vi.stubEnv("IMAGE_FETCH_MAX_REDIRECTS", "2");
+        let requests = 0;
+
+        await withServer(
+          (_req, res) => {
+            requests++;
+            res.writeHead(302, { location: `/loop-${requests}.png` }).end();
+          },
+          async (url) => {
+            await expect(base64ToBuffer(`${url}/loop.png`)).rejects.toMatchObject({
+              code: "SOURCE_TOO_MANY_REDIRECTS",
+            });
+            expect(requests).toBe(3);
+          }
+        );
+      });
+
+      it("should reject a response that is not an image", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+
+        await withServer(
+          (_req, res) => {
+            res.writeHead(200, { "content-type": "text/html" }).end("<html></html>");
+          },
+          async (url) => {
+            await expect(base64ToBuffer(`${url}/image.png`)).rejects.toMatchObject({
+              code: "SOURCE_CONTENT_TYPE_INVALID",
+            });
+          }
+        );
+      });
+
+      it("should enforce IMAGE_FETCH_MAX_BYTES while streaming", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+        vi.stubEnv("IMAGE_FETCH_MAX_BYTES", "1000");
+
+        await withServer(
+          (_req, res) => {
+            // Chunked, so there is no Content-Length to check up front
+            res.writeHead(200, { "content-type": "image/png" });
+            res.write(Buffer.alloc(600));
+            res.write(Buffer.alloc(600));
+            res.end();
+          },
+          async (url) => {
+            await expect(base64ToBuffer(`${url}/image.png`)).rejects.toMatchObject({
+              code: "SOURCE_TOO_LARGE",
+            });
+          }
+        );
+      });
+
+      it("should reject an oversized Content-Length before reading the body", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+        vi.stubEnv("IMAGE_FETCH_MAX_BYTES", "1000");
+
+        await withServer(
+          (_req, res) => {
+            res.writeHead(200, { "content-type": "image/png", "content-length": 5000 });
+            res.end(Buffer.alloc(5000));
+          },
+          async (url) => {
+            await expect(base64ToBuffer(`${url}/image.png`)).rejects.toMatchObject({
+              code: "SOURCE_TOO_LARGE",
+              message: expect.stringContaining("5000 bytes"),
+            });
+          }
+        );
+      });
+
+      it("should report non-2xx responses as SOURCE_FETCH_FAILED", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+
+        await withServer(
+          (_req, res) => {
+            res.writeHead(404).end();
+          },
+          async (url) => {
+            await expect(base64ToBuffer(`${url}/image.png`)).rejects.toMatchObject({
+              code: "SOURCE_FETCH_FAILED",
+              message: "Failed to fetch image: 404 Not Found",
+            });
+          }
+        );
+      });
+
+      it("should send headers, cookies and basic auth", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+        let received: Record<string, string | string[] | undefined> = {};
+
+        await withServer(
+          (req, res) => {
+            received = req.headers;
+            res.writeHead(200, { "content-type": "image/png" }).end("png");
+          },
+          async (url) => {
+            await base64ToBuffer(`${url}/image.png`, undefined, {
+              headers: { "X-Api-Key": "key" },
+              cookies: { session: "abc", theme: "dark" },
+              auth: { username: "ci", password: "secret" },
+            });
+          }
+        );
+
+        expect(received["x-api-key"]).toBe("key");
+        expect(received.cookie).toBe("session=abc; theme=dark");
+        expect(received.authorization).toBe(`Basic ${Buffer.from("ci:secret").toString("base64")}`);
+      });
+
+      it("should drop credentials on a redirect to another origin", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+        let received: Record<string, string | string[] | undefined> = {};
+
+        await withServer(
+          (req, res) => {
+            received = req.headers;
+            res.writeHead(200, { "content-type": "image/png" }).end("png");
+          },
+          (target) =>
+            withServer(
+              (_req, res) => {
+                res.writeHead(302, { location: `${target}/image.png` }).end();
+              },
+              async (url) => {
+                await base64ToBuffer(`${url}/image.png`, undefined, {
+                  headers: { Authorization: "Bearer token" },
+                });
+              }
+            )
+        );
+
+        expect(received.authorization).toBeUndefined();
+      });
+
+      it("should retry 5xx responses with backoff", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+        let requests = 0;
+
+        await withServer(
+          (_req, res) => {
+            requests++;
+            if (requests < 3) {
+              res.writeHead(503).end();
+              return;
+            }
+            res.writeHead(200, { "content-type": "image/png" }).end("png");
+          },
+          async (url) => {
+            const buffer = await base64ToBuffer(`${url}/image.png`, undefined, {
+              retries: 2,
+              retryDelay: 1,
+            });
+            expect(buffer.toString()).toBe("png");
+            expect(requests).toBe(3);
+          }
+        );
+      });
+
+      it("should not retry 4xx responses", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+        let requests = 0;
+
+        await withServer(
+          (_req, res) => {
+            requests++;
+            res.writeHead(401).end();
+          },
+          async (url) => {
+            await expect(
+              base64ToBuffer(`${url}/image.png`, undefined, { retries: 2, retryDelay: 1 })
+            ).rejects.toMatchObject({ code: "SOURCE_FETCH_FAILED" });
+            expect(requests).toBe(1);
+          }
+        );
+      });
+
+      it("should time out and retry a stalled attempt", async () => {
+        vi.stubEnv("IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS", "true");
+        let requests = 0;
+
+        await withServer(
+          () => {
+            requests++;
+          },
+          async (url) => {
+            await expect(
+              base64ToBuffer(`${url}/image.png`, undefined, { timeout: 50, retries: 1, retryDelay: 1 })
+            ).rejects.toMatchObject({
+              code: "SOURCE_FETCH_FAILED",
+              message: "Image source did not respond within 50ms.",
+            });
+            expect(requests).toBe(2);
+          }
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { computeSsim, createSsimMask, renderSsimHeatmap } from "../ssim";
+
+const createPixels = (
+  width: number,
+  height: number,
+  fill: (x: number, y: number) => number
+) => {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const value = fill(x, y);
+      data[idx] = value;
+      data[idx + 1] = value;
+      data[idx + 2] = value;
+      data[idx + 3] = 255;
+    }
+  }
+  return data;
+};
+
+describe("ssim", () => {
+  describe("computeSsim", () => {
+    it("should return 1 for identical images", () => {
+      const image = createPixels(16, 16, (x, y) => (x * y) % 256);
+      const result = computeSsim(image, image, 16, 16);
+
+      expect(result.index).toBeCloseTo(1);
+      expect(result.columns).toBe(2);
+      expect(result.rows).toBe(2);
+    });
+
+    it("should tolerate small noise better than structural changes", () => {
+      const base = createPixels(32, 32, (x) => (x % 8 < 4 ? 40 : 200));
+      const noisy = createPixels(32, 32, (x, y) => (x % 8 < 4 ? 40 : 200) + ((x + y) % 3) - 1);
+      const inverted = createPixels(32, 32, (x) => (x % 8 < 4 ? 200 : 40));
+
+      const noisyIndex = computeSsim(base, noisy, 32, 32).index;
+      const invertedIndex = computeSsim(base, inverted, 32, 32).index;
+
+      expect(noisyIndex).toBeGreaterThan(0.99);
+      expect(invertedIndex).toBeLessThan(0);
+    });
+
+    it("should handle partial windows at the edges", () => {
+      const image = createPixels(10, 5, () => 128);
+      const result = computeSsim(image, image, 10, 5, 4);
+
+      expect(result.columns).toBe(3);
+      expect(result.rows).toBe(2);
+      expect(result.index).toBeCloseTo(1);
+    });
+  });
+
+  describe("createSsimMask", () => {
+    it("should mark pixels of windows below the threshold", () => {
+      const base = createPixels(16, 8, () => 255);
+      const actual = createPixels(16, 8, (x, y) => (x >= 8 && (x + y) % 2 ? 0 : 255));
+      const result = computeSsim(base, actual, 16, 8);
+      const { mask, count } = createSsimMask(result, 16, 8, 0.95);
+
+      expect(count).toBe(64);
+      expect(mask[0]).toBe(0);
+      expect(mask[8]).toBe(1);
+    });
+  });
+
+  describe("renderSsimHeatmap", () => {
+    it("should paint dissimilar windows red and keep similar ones grey", () => {
+      const base = createPixels(16, 8, () => 255);
+      const actual = createPixels(16, 8, (x, y) => (x >= 8 && (x + y) % 2 ? 0 : 255));
+      const result = computeSsim(base, actual, 16, 8);
+      const output = new Uint8Array(16 * 8 * 4);
+      renderSsimHeatmap(result, base, 16, 8, output);
+
+      expect([...output.slice(0, 4)]).toEqual([255, 255, 255, 255]);
+      expect(output[8 * 4]).toBe(255);
+      expect(output[8 * 4 + 2]).toBe(0);
+    });
+  });
+});
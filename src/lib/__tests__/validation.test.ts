@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { pointerToLabel, validate, type Rule } from "../validation";
+
+const schema: Rule = {
+  type: "object",
+  required: ["name"],
+  properties: {
+    name: { type: "string", minLength: 1 },
+    level: { type: "number", integer: true, min: 0, max: 9 },
+    mode: { type: "enum", values: ["fast", "slow"] },
+    color: {
+      type: "tuple",
+      items: [0, 1, 2].map((): Rule => ({ type: "number", integer: true, min: 0, max: 255 })),
+      expected: "an [r, g, b] array",
+    },
+    tags: { type: "array", items: { type: "string" } },
+    labels: { type: "record", values: { type: "string" } },
+    extra: {
+      type: "union",
+      rules: [{ type: "boolean" }, { type: "object", properties: { size: { type: "number" } } }],
+    },
+  },
+};
+
+describe("validation", () => {
+  describe("pointerToLabel", () => {
+    it("should render pointers the way the docs name fields", () => {
+      expect(pointerToLabel("")).toBe("request body");
+      expect(pointerToLabel("/options/ignore/colors/0")).toBe("options.ignore.colors[0]");
+      expect(pointerToLabel("/a~1b/c~0d")).toBe("a/b.c~d");
+    });
+  });
+
+  describe("validate", () => {
+    it("should accept a valid value", () => {
+      expect(
+        validate(
+          { name: "a", level: 3, mode: "fast", color: [1, 2, 3], tags: ["x"], extra: true },
+          schema
+        )
+      ).toEqual({ errors: [], warnings: [] });
+    });
+
+    it("should collect every error with its JSON pointer", () => {
+      const { errors } = validate(
+        { level: 7.5, mode: "medium", color: [300, "a"], tags: ["x", 1] },
+        schema
+      );
+
+      expect(errors).toEqual([
+        { path: "/name", message: "name is required." },
+        { path: "/level", message: "level must be an integer between 0 and 9." },
+        { path: "/mode", message: "mode must be one of: fast, slow." },
+        { path: "/color", message: "color must be an [r, g, b] array." },
+        { path: "/tags/1", message: "tags[1] must be a string." },
+      ]);
+    });
+
+    it("should validate the union branch matching the value's type", () => {
+      expect(validate({ name: "a", extra: { size: "big" } }, schema).errors).toEqual([
+        { path: "/extra/size", message: "extra.size must be a number." },
+      ]);
+      expect(validate({ name: "a", extra: 1 }, schema).errors).toEqual([
+        { path: "/extra", message: "extra must be a boolean or an object." },
+      ]);
+    });
+
+    it("should validate every value of a record", () => {
+      expect(validate({ name: "a", labels: { "x-a": "1", "x/b": 2 } }, schema)).toEqual({
+        errors: [{ path: "/labels/x~1b", message: "labels.x/b must be a string." }],
+        warnings: [],
+      });
+    });
+
+    it("should warn about unknown keys and suggest close matches", () => {
+      const { errors, warnings } = validate({ name: "a", mdoe: "fast", zzz: 1 }, schema);
+
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual([
+        { path: "/mdoe", message: 'Unknown field mdoe is ignored. Did you mean "mode"?' },
+        { path: "/zzz", message: "Unknown field zzz is ignored." },
+      ]);
+    });
+
+    it("should treat inherited property names as unknown keys", () => {
+      const { errors, warnings } = validate(JSON.parse('{"name":"a","constructor":1,"toString":2}'), schema);
+
+      expect(errors).toEqual([]);
+      expect(warnings.map(({ path }) => path)).toEqual(["/constructor", "/toString"]);
+    });
+
+    it("should reject a body that is not an object", () => {
+      expect(validate([], schema).errors).toEqual([
+        { path: "", message: "request body must be an object." },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import sharp from "sharp"
+
+// Animated flicker output. sharp cannot assemble frames into an animation
+// itself, so each frame is encoded as a still WebP and the frames are muxed
+// into an animated WebP container; GIF output is converted from that.
+
+export type AnimationFormat = "webp" | "gif"
+
+export interface AnimationOptions {
+  format: AnimationFormat
+  delay: number // Milliseconds per frame
+  quality: number // WebP quality 1-100
+  crop?: { left: number; top: number; width: number; height: number }
+}
+
+// RIFF chunk holding the encoded image data of a still WebP
+const IMAGE_CHUNKS = ["ALPH", "VP8 ", "VP8L"]
+
+function chunk(fourCC: string, payload: Buffer): Buffer {
+  const header = Buffer.alloc(8)
+  header.write(fourCC, 0, "ascii")
+  header.writeUInt32LE(payload.length, 4)
+  const padding = payload.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0)
+  return Buffer.concat([header, payload, padding])
+}
+
+function writeUInt24LE(buffer: Buffer, value: number, offset: number) {
+  buffer.writeUIntLE(value, offset, 3)
+}
+
+// Keeps the ALPH/VP8/VP8L chunks of a still WebP, dropping VP8X and metadata
+function imageChunks(webp: Buffer): Buffer {
+  const chunks: Buffer[] = []
+  let offset = 12
+  while (offset + 8 <= webp.length) {
+    const fourCC = webp.toString("ascii", offset, offset + 4)
+    const size = webp.readUInt32LE(offset + 4)
+    const end = offset + 8 + size + (size % 2)
+    if (IMAGE_CHUNKS.includes(fourCC)) {
+      chunks.push(webp.subarray(offset, end))
+    }
+    offset = end
+  }
+  return Buffer.concat(chunks)
+}
+
+function muxAnimatedWebp(frames: Buffer[], width: number, height: number, delay: number) {
+  const vp8x = Buffer.alloc(10)
+  vp8x.writeUInt8(0x02, 0) // Animation flag
+  writeUInt24LE(vp8x, width - 1, 4)
+  writeUInt24LE(vp8x, height - 1, 7)
+
+  const anim = Buffer.alloc(6)
+  anim.writeUInt32LE(0xffffffff, 0) // White background
+  anim.writeUInt16LE(0, 4) // Loop forever
+
+  const anmf = frames.map((frame) => {
+    const header = Buffer.alloc(16)
+    writeUInt24LE(header, 0, 0)
+    writeUInt24LE(header, 0, 3)
+    writeUInt24LE(header, width - 1, 6)
+    writeUInt24LE(header, height - 1, 9)
+    writeUInt24LE(header, delay, 12)
+    header.writeUInt8(0x02, 15) // Do not blend, frames are opaque
+    return chunk("ANMF", Buffer.concat([header, imageChunks(frame)]))
+  })
+
+  const body = Buffer.concat([
+    Buffer.from("WEBP", "ascii"),
+    chunk("VP8X", vp8x),
+    chunk("ANIM", anim),
+    ...anmf,
+  ])
+  const riff = Buffer.alloc(8)
+  riff.write("RIFF", 0, "ascii")
+  riff.writeUInt32LE(body.length, 4)
+  return Buffer.concat([riff, body])
+}
+
+export async function renderAnimation(
+  frames: Uint8Array[],
+  width: number,
+  height: number,
+  { format, delay, quality, crop }: AnimationOptions
+): Promise<Buffer> {
+  const frameWidth = crop?.width ?? width
+  const frameHeight = crop?.height ?? height
+
+  const stills = await Promise.all(
+    frames.map((frame) => {
+      let image = sharp(Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength), {
+        raw: { width, height, channels: 4 },
+      })
+      if (crop) {
+        image = image.extract(crop)
+      }
+      return image
+        .flatten({ background: "#ffffff" })
+        .webp({ quality, lossless: format === "gif" })
+        .toBuffer()
+    })
+  )
+
+  const webp = muxAnimatedWebp(stills, frameWidth, frameHeight, delay)
+  if (format === "webp") {
+    return webp
+  }
+  return sharp(webp, { animated: true }).gif({ loop: 0, delay }).toBuffer()
+}
@@ -0,0 +1,195 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto"
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { CodedError } from "./errors"
+
+// Named baseline images kept on the server, so a comparison only has to send
+// the actual screenshot. A baseline is identified by name and tag, and its id
+// is "<name>:<tag>", e.g. "checkout-page:main".
+//
+//   BASELINE_STORE        Storage backend, default: "filesystem"
+//   BASELINE_STORE_DIR    Directory of the filesystem backend, default: ".baselines"
+//   BASELINE_API_TOKEN    Bearer token for uploads and deletes; unset disables them
+
+export interface BaselineMetadata {
+  id: string
+  name: string
+  tag: string
+  contentType: string // e.g. "image/png"
+  size: number // In bytes
+  width: number
+  height: number
+  createdAt: string // ISO 8601
+}
+
+export interface Baseline {
+  metadata: BaselineMetadata
+  image: Buffer
+}
+
+export type BaselineInput = Omit<BaselineMetadata, "id" | "size" | "createdAt"> & {
+  image: Buffer
+}
+
+export interface BaselineFilter {
+  name?: string
+  tag?: string
+}
+
+// Storage backends implement this; routes only talk to the interface
+export interface BaselineStore {
+  // Replaces an existing baseline with the same name and tag
+  put(input: BaselineInput): Promise<BaselineMetadata>
+  get(id: string): Promise<Baseline | null>
+  list(filter?: BaselineFilter): Promise<BaselineMetadata[]>
+  delete(id: string): Promise<boolean>
+}
+
+export const DEFAULT_BASELINE_TAG = "latest"
+
+// Names and tags double as path segments, so they are kept to a safe alphabet
+const NAME_PATTERN = "[A-Za-z0-9][A-Za-z0-9._-]{0,127}"
+export const BASELINE_NAME = new RegExp(`^${NAME_PATTERN}$`)
+export const BASELINE_ID = new RegExp(`^${NAME_PATTERN}:${NAME_PATTERN}$`)
+
+export function baselineId(name: string, tag: string): string {
+  return `${name}:${tag}`
+}
+
+export function parseBaselineId(id: string): { name: string; tag: string } | null {
+  const [name, tag, ...rest] = id.split(":")
+  if (rest.length > 0 || !BASELINE_NAME.test(name) || !BASELINE_NAME.test(tag ?? "")) {
+    return null
+  }
+  return { name, tag }
+}
+
+const isNotFound = (error: unknown) => (error as NodeJS.ErrnoException).code === "ENOENT"
+
+// Stores each baseline as <dir>/<name>/<tag>.json (metadata) next to
+// <dir>/<name>/<tag>.image. The metadata file is written last, so a baseline
+// only becomes visible once its image is complete.
+export class FileSystemBaselineStore implements BaselineStore {
+  constructor(private dir: string) {}
+
+  private files(name: string, tag: string) {
+    const base = path.join(this.dir, name, tag)
+    return { metadata: `${base}.json`, image: `${base}.image` }
+  }
+
+  private async writeAtomic(file: string, data: string | Buffer) {
+    // Unique per write, so concurrent uploads of one baseline never share it
+    const temp = `${file}.${randomUUID()}.tmp`
+    await writeFile(temp, data)
+    await rename(temp, file)
+  }
+
+  async put({ image, ...input }: BaselineInput): Promise<BaselineMetadata> {
+    const metadata: BaselineMetadata = {
+      id: baselineId(input.name, input.tag),
+      ...input,
+      size: image.length,
+      createdAt: new Date().toISOString(),
+    }
+    const files = this.files(input.name, input.tag)
+    await mkdir(path.dirname(files.image), { recursive: true })
+    await this.writeAtomic(files.image, image)
+    await this.writeAtomic(files.metadata, JSON.stringify(metadata, null, 2))
+    return metadata
+  }
+
+  private async readMetadata(file: string): Promise<BaselineMetadata | null> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as BaselineMetadata
+    } catch (error) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+
+  async get(id: string): Promise<Baseline | null> {
+    const parsed = parseBaselineId(id)
+    if (!parsed) return null
+    const files = this.files(parsed.name, parsed.tag)
+    const metadata = await this.readMetadata(files.metadata)
+    if (!metadata) return null
+    try {
+      return { metadata, image: await readFile(files.image) }
+    } catch (error) {
+      // Deleted between the two reads
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+
+  async list(filter: BaselineFilter = {}): Promise<BaselineMetadata[]> {
+    const names = await this.readDir(this.dir)
+    const baselines: BaselineMetadata[] = []
+    for (const name of names.sort()) {
+      if (!BASELINE_NAME.test(name) || (filter.name && name !== filter.name)) continue
+      for (const file of (await this.readDir(path.join(this.dir, name))).sort()) {
+        if (!file.endsWith(".json")) continue
+        const tag = file.slice(0, -".json".length)
+        if (!BASELINE_NAME.test(tag) || (filter.tag && tag !== filter.tag)) continue
+        const metadata = await this.readMetadata(path.join(this.dir, name, file))
+        if (metadata) baselines.push(metadata)
+      }
+    }
+    return baselines
+  }
+
+  private async readDir(dir: string): Promise<string[]> {
+    try {
+      return await readdir(dir)
+    } catch (error) {
+      if (isNotFound(error)) return []
+      throw error
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const parsed = parseBaselineId(id)
+    if (!parsed) return false
+    const files = this.files(parsed.name, parsed.tag)
+    if (!(await this.readMetadata(files.metadata))) return false
+    // Metadata first, so a half-deleted baseline is invisible rather than broken
+    await rm(files.metadata, { force: true })
+    await rm(files.image, { force: true })
+    return true
+  }
+}
+
+// Read on every call, like the image fetch limits, so tests and deployments
+// can point the store elsewhere without a rebuild
+export function baselineStoreFromEnv(
+  env: Record<string, string | undefined> = process.env
+): BaselineStore {
+  const backend = env.BASELINE_STORE || "filesystem"
+  if (backend !== "filesystem") {
+    throw new Error(`Unsupported BASELINE_STORE "${backend}". Supported: filesystem.`)
+  }
+  return new FileSystemBaselineStore(path.resolve(env.BASELINE_STORE_DIR || ".baselines"))
+}
+
+// Hashed first so the comparison takes the same time whatever the lengths
+const digest = (value: string) => createHash("sha256").update(value).digest()
+
+// Uploads and deletes need "Authorization: Bearer <BASELINE_API_TOKEN>". With
+// no token configured they are refused, so a deployment is read-only until
+// one is set.
+export function authorizeBaselineWrite(
+  authorization: string | null,
+  env: Record<string, string | undefined> = process.env
+): void {
+  const token = env.BASELINE_API_TOKEN
+  if (!token) {
+    throw new CodedError(
+      "BASELINE_WRITES_DISABLED",
+      "Baseline uploads and deletes are disabled. Set BASELINE_API_TOKEN to enable them."
+    )
+  }
+  const given = /^Bearer\s+(.+)$/i.exec(authorization ?? "")?.[1] ?? ""
+  if (!timingSafeEqual(digest(given), digest(token))) {
+    throw new CodedError("UNAUTHORIZED", 'Send the baseline API token as "Authorization: Bearer <token>".')
+  }
+}
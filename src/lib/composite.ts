@@ -0,0 +1,92 @@
+import sharp from "sharp"
+
+export type CompositeLayout = "horizontal" | "vertical"
+
+export interface CompositePanel {
+  label: string
+  data: Uint8Array // RGBA pixels, width x height
+}
+
+export interface CompositeRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface CompositeOptions {
+  layout: CompositeLayout
+  labels: boolean
+  regions: CompositeRect[] // Outlined on every panel, in panel coordinates
+}
+
+const GAP = 16
+const LABEL_HEIGHT = 28
+const REGION_COLOR = "#ff00ff"
+
+function labelSvg(label: string, width: number) {
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${LABEL_HEIGHT}">` +
+      `<rect width="100%" height="100%" fill="#f3f4f6"/>` +
+      `<text x="8" y="19" font-family="sans-serif" font-size="14" font-weight="bold" fill="#111827">${label}</text>` +
+      `</svg>`
+  )
+}
+
+function regionsSvg(regions: CompositeRect[], width: number, height: number) {
+  const rects = regions
+    .map(
+      (region) =>
+        `<rect x="${region.left + 0.5}" y="${region.top + 0.5}" width="${Math.max(0, region.width - 1)}" height="${Math.max(0, region.height - 1)}" fill="none" stroke="${REGION_COLOR}" stroke-width="2"/>`
+    )
+    .join("")
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${rects}</svg>`
+  )
+}
+
+// Lays the panels out side by side (or stacked) on a white canvas, each under
+// an optional label strip. Returns an unencoded sharp pipeline so the caller
+// can apply its own output format; transparent pixels show the white canvas.
+export function renderComposite(
+  panels: CompositePanel[],
+  width: number,
+  height: number,
+  { layout, labels, regions }: CompositeOptions
+): sharp.Sharp {
+  const labelHeight = labels ? LABEL_HEIGHT : 0
+  const cellHeight = labelHeight + height
+  const horizontal = layout === "horizontal"
+  const canvasWidth = horizontal ? panels.length * width + (panels.length - 1) * GAP : width
+  const canvasHeight = horizontal
+    ? cellHeight
+    : panels.length * cellHeight + (panels.length - 1) * GAP
+
+  const overlays: sharp.OverlayOptions[] = []
+  for (const [i, panel] of panels.entries()) {
+    const left = horizontal ? i * (width + GAP) : 0
+    const top = horizontal ? 0 : i * (cellHeight + GAP)
+
+    if (labels) {
+      overlays.push({ input: labelSvg(panel.label, width), left, top })
+    }
+    overlays.push({
+      input: Buffer.from(panel.data.buffer, panel.data.byteOffset, panel.data.byteLength),
+      raw: { width, height, channels: 4 },
+      left,
+      top: top + labelHeight,
+    })
+    if (regions.length > 0) {
+      overlays.push({ input: regionsSvg(regions, width, height), left, top: top + labelHeight })
+    }
+  }
+
+  return sharp({
+    create: {
+      width: canvasWidth,
+      height: canvasHeight,
+      channels: 4,
+      background: { r: 255, g: 255, b: 255, alpha: 1 },
+    },
+  }).composite(overlays)
+}
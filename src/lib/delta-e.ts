@@ -0,0 +1,169 @@
+// CIE L*a*b* conversion and CIEDE2000 color difference (Sharma et al., 2005)
+
+const SRGB_TO_LINEAR = Array.from({ length: 256 }, (_, c) => {
+  const v = c / 255
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+})
+
+// sRGB (D65) to CIE L*a*b*
+export function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const lr = SRGB_TO_LINEAR[Math.round(r)]
+  const lg = SRGB_TO_LINEAR[Math.round(g)]
+  const lb = SRGB_TO_LINEAR[Math.round(b)]
+
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / 1.08883
+
+  const f = (t: number) =>
+    t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116
+  const fx = f(x)
+  const fy = f(y)
+  const fz = f(z)
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+const POW25_7 = 25 ** 7
+
+function hueAngle(b: number, a: number) {
+  if (a === 0 && b === 0) return 0
+  const h = (Math.atan2(b, a) * 180) / Math.PI
+  return h < 0 ? h + 360 : h
+}
+
+export function ciede2000(
+  lab1: [number, number, number],
+  lab2: [number, number, number]
+): number {
+  const [L1, a1, b1] = lab1
+  const [L2, a2, b2] = lab2
+
+  const cBar = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2
+  const g = 0.5 * (1 - Math.sqrt(cBar ** 7 / (cBar ** 7 + POW25_7)))
+  const a1p = (1 + g) * a1
+  const a2p = (1 + g) * a2
+  const c1p = Math.hypot(a1p, b1)
+  const c2p = Math.hypot(a2p, b2)
+  const h1p = hueAngle(b1, a1p)
+  const h2p = hueAngle(b2, a2p)
+
+  const dLp = L2 - L1
+  const dCp = c2p - c1p
+  let dhp = 0
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p
+    if (dhp > 180) dhp -= 360
+    else if (dhp < -180) dhp += 360
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dhp / 2))
+
+  const lBarP = (L1 + L2) / 2
+  const cBarP = (c1p + c2p) / 2
+  let hBarP = h1p + h2p
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP = (h1p + h2p) / 2
+    else if (h1p + h2p < 360) hBarP = (h1p + h2p + 360) / 2
+    else hBarP = (h1p + h2p - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hBarP - 30)) +
+    0.24 * Math.cos(toRadians(2 * hBarP)) +
+    0.32 * Math.cos(toRadians(3 * hBarP + 6)) -
+    0.2 * Math.cos(toRadians(4 * hBarP - 63))
+  const dTheta = 30 * Math.exp(-(((hBarP - 275) / 25) ** 2))
+  const rc = 2 * Math.sqrt(cBarP ** 7 / (cBarP ** 7 + POW25_7))
+  const sl = 1 + (0.015 * (lBarP - 50) ** 2) / Math.sqrt(20 + (lBarP - 50) ** 2)
+  const sc = 1 + 0.045 * cBarP
+  const sh = 1 + 0.015 * cBarP * t
+  const rt = -Math.sin(toRadians(2 * dTheta)) * rc
+
+  return Math.sqrt(
+    (dLp / sl) ** 2 +
+      (dCp / sc) ** 2 +
+      (dHp / sh) ** 2 +
+      rt * (dCp / sc) * (dHp / sh)
+  )
+}
+
+// Lab of an RGBA pixel, blended over white like pixelmatch does
+function pixelLab(data: Uint8Array, idx: number) {
+  const a = data[idx + 3] / 255
+  return rgbToLab(
+    255 + (data[idx] - 255) * a,
+    255 + (data[idx + 1] - 255) * a,
+    255 + (data[idx + 2] - 255) * a
+  )
+}
+
+export interface DeltaEResult {
+  values: Float32Array
+  diffPixels: number
+  mean: number
+  max: number
+}
+
+export function computeDeltaE(
+  img1: Uint8Array,
+  img2: Uint8Array,
+  width: number,
+  height: number,
+  tolerance: number,
+  ignoreMask?: Uint8Array
+): DeltaEResult {
+  const values = new Float32Array(width * height)
+  let diffPixels = 0
+  let sum = 0
+  let counted = 0
+  let max = 0
+
+  for (let i = 0; i < values.length; i++) {
+    if (ignoreMask?.[i]) continue
+    const idx = i * 4
+    const same =
+      img1[idx] === img2[idx] &&
+      img1[idx + 1] === img2[idx + 1] &&
+      img1[idx + 2] === img2[idx + 2] &&
+      img1[idx + 3] === img2[idx + 3]
+    const deltaE = same ? 0 : ciede2000(pixelLab(img1, idx), pixelLab(img2, idx))
+
+    values[i] = deltaE
+    sum += deltaE
+    counted++
+    if (deltaE > max) max = deltaE
+    if (deltaE > tolerance) diffPixels++
+  }
+
+  return { values, diffPixels, mean: counted > 0 ? sum / counted : 0, max }
+}
+
+// Pixels within tolerance stay as a faded grey base; differences ramp from
+// yellow at the tolerance to red at maxDeltaE and above
+export function renderDeltaEHeatmap(
+  result: DeltaEResult,
+  base: Uint8Array,
+  tolerance: number,
+  output: Uint8Array,
+  maxDeltaE = 50
+) {
+  for (let i = 0; i < result.values.length; i++) {
+    const idx = i * 4
+    const deltaE = result.values[i]
+    if (deltaE > tolerance) {
+      const t = Math.min(1, (deltaE - tolerance) / Math.max(1e-6, maxDeltaE - tolerance))
+      output[idx] = 255
+      output[idx + 1] = Math.round(255 * (1 - t))
+      output[idx + 2] = 0
+    } else {
+      const [l] = pixelLab(base, idx)
+      const grey = Math.round(255 + ((l / 100) * 255 - 255) * 0.1)
+      output[idx] = grey
+      output[idx + 1] = grey
+      output[idx + 2] = grey
+    }
+    output[idx + 3] = 255
+  }
+}
@@ -0,0 +1,132 @@
+// Connected-component clustering of a diff mask. Differing pixels are grouped
+// row by row into runs; runs that touch, or are at most mergeDistance pixels
+// apart horizontally and vertically, end up in the same region.
+
+export interface DiffRegionBounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+  width: number
+  height: number
+}
+
+export interface DiffRegion {
+  bounds: DiffRegionBounds
+  pixels: number
+  share: number // Fraction (0-1) of all differing pixels
+}
+
+export interface DiffRegionOptions {
+  mergeDistance?: number // Max gap in pixels between merged blobs, default: 0 (touching only)
+  minPixels?: number // Regions with fewer pixels are dropped, default: 1
+}
+
+interface Run {
+  y: number
+  start: number
+  end: number
+  id: number
+}
+
+function findRoot(parent: number[], id: number): number {
+  while (parent[id] !== id) {
+    parent[id] = parent[parent[id]]
+    id = parent[id]
+  }
+  return id
+}
+
+function union(parent: number[], a: number, b: number) {
+  const rootA = findRoot(parent, a)
+  const rootB = findRoot(parent, b)
+  if (rootA !== rootB) parent[rootB] = rootA
+}
+
+export function findDiffRegions(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  { mergeDistance = 0, minPixels = 1 }: DiffRegionOptions = {}
+): DiffRegion[] {
+  // Pixels up to `reach` apart on both axes are neighbours (1 = 8-connectivity)
+  const reach = mergeDistance + 1
+  const rows: Run[][] = []
+  const runs: Run[] = []
+  const parent: number[] = []
+
+  for (let y = 0; y < height; y++) {
+    const row: Run[] = []
+    let x = 0
+    while (x < width) {
+      if (!mask[y * width + x]) {
+        x++
+        continue
+      }
+      const start = x
+      while (x < width && mask[y * width + x]) x++
+      const run = { y, start, end: x - 1, id: runs.length }
+      parent.push(run.id)
+      runs.push(run)
+
+      const previous = row[row.length - 1]
+      if (previous && run.start - previous.end <= reach) {
+        union(parent, previous.id, run.id)
+      }
+      row.push(run)
+    }
+    rows.push(row)
+
+    for (let dy = 1; dy <= reach && y - dy >= 0; dy++) {
+      const above = rows[y - dy]
+      let j = 0
+      for (const run of row) {
+        while (j < above.length && above[j].end < run.start - reach) j++
+        for (let k = j; k < above.length && above[k].start <= run.end + reach; k++) {
+          union(parent, above[k].id, run.id)
+        }
+      }
+    }
+  }
+
+  const regions = new Map<number, { bounds: DiffRegionBounds; pixels: number }>()
+  let totalPixels = 0
+  for (const run of runs) {
+    const root = findRoot(parent, run.id)
+    const length = run.end - run.start + 1
+    totalPixels += length
+
+    const region = regions.get(root)
+    if (!region) {
+      regions.set(root, {
+        bounds: {
+          left: run.start,
+          top: run.y,
+          right: run.end,
+          bottom: run.y,
+          width: 0,
+          height: 0,
+        },
+        pixels: length,
+      })
+      continue
+    }
+    region.pixels += length
+    region.bounds.left = Math.min(region.bounds.left, run.start)
+    region.bounds.right = Math.max(region.bounds.right, run.end)
+    region.bounds.bottom = Math.max(region.bounds.bottom, run.y)
+  }
+
+  return Array.from(regions.values())
+    .filter((region) => region.pixels >= minPixels)
+    .map(({ bounds, pixels }) => ({
+      bounds: {
+        ...bounds,
+        width: bounds.right - bounds.left + 1,
+        height: bounds.bottom - bounds.top + 1,
+      },
+      pixels,
+      share: pixels / totalPixels,
+    }))
+    .sort((a, b) => b.pixels - a.pixels)
+}
@@ -0,0 +1,67 @@
+// Stable, machine-readable error codes. Clients branch on these (and on
+// `retryable`) instead of parsing the English error message.
+
+export type ErrorCode =
+  | "INVALID_REQUEST"
+  | "INVALID_JSON"
+  | "PAYLOAD_TOO_LARGE"
+  | "NOT_ACCEPTABLE"
+  | "SOURCE_FETCH_FAILED"
+  | "SOURCE_URL_INVALID"
+  | "SOURCE_PROTOCOL_NOT_ALLOWED"
+  | "SOURCE_ADDRESS_BLOCKED"
+  | "SOURCE_TOO_MANY_REDIRECTS"
+  | "SOURCE_TOO_LARGE"
+  | "SOURCE_CONTENT_TYPE_INVALID"
+  | "DECODE_FAILED"
+  | "DIMENSION_MISMATCH"
+  | "UNAUTHORIZED"
+  | "BASELINE_WRITES_DISABLED"
+  | "BASELINE_NOT_FOUND"
+  | "TIMEOUT"
+  | "OUT_OF_MEMORY"
+  | "INTERNAL_ERROR"
+
+export interface ErrorCodeInfo {
+  status: number
+  title: string
+  retryable: boolean // The same request may succeed when sent again
+}
+
+export const ERROR_CODES: Record<ErrorCode, ErrorCodeInfo> = {
+  INVALID_REQUEST: { status: 400, title: "Invalid request", retryable: false },
+  INVALID_JSON: { status: 400, title: "Invalid JSON", retryable: false },
+  PAYLOAD_TOO_LARGE: { status: 413, title: "Payload too large", retryable: false },
+  NOT_ACCEPTABLE: { status: 406, title: "Not acceptable", retryable: false },
+  SOURCE_FETCH_FAILED: { status: 502, title: "Image source could not be fetched", retryable: true },
+  SOURCE_URL_INVALID: { status: 400, title: "Invalid image source URL", retryable: false },
+  SOURCE_PROTOCOL_NOT_ALLOWED: { status: 400, title: "Image source protocol not allowed", retryable: false },
+  SOURCE_ADDRESS_BLOCKED: { status: 403, title: "Image source address blocked", retryable: false },
+  SOURCE_TOO_MANY_REDIRECTS: { status: 502, title: "Too many redirects", retryable: false },
+  SOURCE_TOO_LARGE: { status: 413, title: "Image source too large", retryable: false },
+  SOURCE_CONTENT_TYPE_INVALID: { status: 415, title: "Image source is not an image", retryable: false },
+  DECODE_FAILED: { status: 400, title: "Image could not be decoded", retryable: false },
+  DIMENSION_MISMATCH: { status: 400, title: "Image dimensions don't match", retryable: false },
+  UNAUTHORIZED: { status: 401, title: "Unauthorized", retryable: false },
+  BASELINE_WRITES_DISABLED: { status: 403, title: "Baseline writes disabled", retryable: false },
+  BASELINE_NOT_FOUND: { status: 404, title: "Baseline not found", retryable: false },
+  TIMEOUT: { status: 504, title: "Processing timed out", retryable: true },
+  OUT_OF_MEMORY: { status: 500, title: "Out of memory", retryable: false },
+  INTERNAL_ERROR: { status: 500, title: "Internal error", retryable: false },
+}
+
+// Thrown where the cause of a failure is known, so handlers map it by code
+export class CodedError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = "CodedError"
+  }
+}
+
+// RFC 7807 problem type for a code, e.g. "urn:visual-image-comparer:error:timeout"
+export function problemType(code: ErrorCode): string {
+  return `urn:visual-image-comparer:error:${code.toLowerCase().replace(/_/g, "-")}`
+}
@@ -0,0 +1,93 @@
+// Per-pixel color distance heatmap. Distances use pixelmatch's YIQ metric,
+// normalised so 0-1 lines up with options.pixelmatch.threshold.
+const MAX_YIQ_DELTA = 35215
+
+export interface HeatmapLegendStop {
+  value: number
+  color: [number, number, number]
+}
+
+// Blue for barely changed pixels, through cyan, green and yellow, to red for
+// completely different ones
+export const HEATMAP_LEGEND: HeatmapLegendStop[] = [
+  { value: 0, color: [0, 0, 255] },
+  { value: 0.25, color: [0, 255, 255] },
+  { value: 0.5, color: [0, 255, 0] },
+  { value: 0.75, color: [255, 255, 0] },
+  { value: 1, color: [255, 0, 0] },
+]
+
+// Blends an RGBA pixel over white like pixelmatch does
+function blended(data: Uint8Array, idx: number): [number, number, number] {
+  const a = data[idx + 3] / 255
+  return [
+    255 + (data[idx] - 255) * a,
+    255 + (data[idx + 1] - 255) * a,
+    255 + (data[idx + 2] - 255) * a,
+  ]
+}
+
+export function colorDistance(img1: Uint8Array, img2: Uint8Array, idx: number): number {
+  if (
+    img1[idx] === img2[idx] &&
+    img1[idx + 1] === img2[idx + 1] &&
+    img1[idx + 2] === img2[idx + 2] &&
+    img1[idx + 3] === img2[idx + 3]
+  ) {
+    return 0
+  }
+
+  const [r1, g1, b1] = blended(img1, idx)
+  const [r2, g2, b2] = blended(img2, idx)
+  const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223
+  const i = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189
+  const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694
+  const delta = 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q
+
+  return Math.min(1, Math.sqrt(delta / MAX_YIQ_DELTA))
+}
+
+export function heatmapColor(value: number): [number, number, number] {
+  const clamped = Math.min(1, Math.max(0, value))
+  for (let i = 1; i < HEATMAP_LEGEND.length; i++) {
+    const upper = HEATMAP_LEGEND[i]
+    if (clamped > upper.value) continue
+    const lower = HEATMAP_LEGEND[i - 1]
+    const t = (clamped - lower.value) / (upper.value - lower.value)
+    return [
+      Math.round(lower.color[0] + (upper.color[0] - lower.color[0]) * t),
+      Math.round(lower.color[1] + (upper.color[1] - lower.color[1]) * t),
+      Math.round(lower.color[2] + (upper.color[2] - lower.color[2]) * t),
+    ]
+  }
+  return HEATMAP_LEGEND[HEATMAP_LEGEND.length - 1].color
+}
+
+// Unchanged pixels stay as a faded grey copy of the base image; every changed
+// pixel is painted with the legend color of its distance. Returns the largest
+// distance found.
+export function renderHeatmap(
+  img1: Uint8Array,
+  img2: Uint8Array,
+  output: Uint8Array
+): number {
+  let maxDistance = 0
+  for (let idx = 0; idx < img1.length; idx += 4) {
+    const distance = colorDistance(img1, img2, idx)
+    if (distance > 0) {
+      const [r, g, b] = heatmapColor(distance)
+      output[idx] = r
+      output[idx + 1] = g
+      output[idx + 2] = b
+      if (distance > maxDistance) maxDistance = distance
+    } else {
+      const [r, g, b] = blended(img1, idx)
+      const grey = Math.round(255 + (0.299 * r + 0.587 * g + 0.114 * b - 255) * 0.1)
+      output[idx] = grey
+      output[idx + 1] = grey
+      output[idx + 2] = grey
+    }
+    output[idx + 3] = 255
+  }
+  return maxDistance
+}
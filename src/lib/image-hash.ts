@@ -0,0 +1,110 @@
+import sharp from "sharp"
+import { CodedError } from "./errors"
+
+// 64-bit perceptual hashes, hex encoded (16 characters)
+export interface ImageHashes {
+  aHash: string
+  dHash: string
+  pHash: string
+}
+
+export type ImageHashType = keyof ImageHashes
+
+export const HASH_BITS = 64
+
+async function greyscalePixels(
+  buffer: Buffer,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  return sharp(buffer)
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .resize(width, height, { fit: "fill" })
+    .raw()
+    .toBuffer()
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = ""
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble =
+      (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+// Average hash: 8x8 greyscale, bit set where a pixel is brighter than the mean
+function averageHash(pixels: Buffer): string {
+  const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length
+  return bitsToHex(Array.from(pixels, (value) => value > mean))
+}
+
+// Difference hash: 9x8 greyscale, bit set where a pixel is brighter than its right neighbour
+function differenceHash(pixels: Buffer): string {
+  const bits: boolean[] = []
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1])
+    }
+  }
+  return bitsToHex(bits)
+}
+
+// Perceptual hash: 32x32 greyscale DCT, bit set where a low-frequency
+// coefficient is above the median (the DC term is left out of the median)
+function perceptualHash(pixels: Buffer): string {
+  const size = 32
+  const coefficients: number[] = []
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          sum +=
+            pixels[y * size + x] *
+            Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)) *
+            Math.cos(((2 * y + 1) * v * Math.PI) / (2 * size))
+        }
+      }
+      coefficients.push(sum)
+    }
+  }
+
+  const sorted = coefficients.slice(1).sort((a, b) => a - b)
+  const median = sorted[Math.floor(sorted.length / 2)]
+  return bitsToHex(coefficients.map((value) => value > median))
+}
+
+export async function computeImageHashes(buffer: Buffer): Promise<ImageHashes> {
+  try {
+    const [small, wide, large] = await Promise.all([
+      greyscalePixels(buffer, 8, 8),
+      greyscalePixels(buffer, 9, 8),
+      greyscalePixels(buffer, 32, 32),
+    ])
+    return {
+      aHash: averageHash(small),
+      dHash: differenceHash(wide),
+      pHash: perceptualHash(large),
+    }
+  } catch (error: any) {
+    throw new CodedError(
+      "DECODE_FAILED",
+      `Failed to decode image: ${error.message}. Supported formats: PNG, JPEG, WebP, GIF, AVIF, TIFF, SVG.`
+    )
+  }
+}
+
+export function hammingDistance(hash1: string, hash2: string): number {
+  let distance = 0
+  for (let i = 0; i < hash1.length; i++) {
+    let xor = parseInt(hash1[i], 16) ^ parseInt(hash2[i], 16)
+    while (xor) {
+      distance += xor & 1
+      xor >>= 1
+    }
+  }
+  return distance
+}
@@ -0,0 +1,352 @@
+import { lookup as dnsLookup, type LookupAddress } from "node:dns"
+import http from "node:http"
+import https from "node:https"
+import { BlockList, isIP, type LookupFunction } from "node:net"
+import { CodedError } from "./errors"
+
+// Remote sources are fetched server-side, so a public deployment must not be
+// usable to reach internal networks. Each guard is configurable through env:
+//
+//   IMAGE_FETCH_PROTOCOLS                Comma-separated, default: "http,https"
+//   IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS   "true" allows private, loopback and link-local addresses
+//   IMAGE_FETCH_MAX_REDIRECTS            Default: 3
+//   IMAGE_FETCH_MAX_BYTES                Default: 10485760 (10MB)
+//   IMAGE_FETCH_CONTENT_TYPES            Comma-separated, "type/*" wildcards, default: "image/*"
+
+export interface FetchLimits {
+  protocols: string[] // With the trailing colon, as in URL.protocol
+  allowPrivateNetworks: boolean
+  maxRedirects: number
+  maxBytes: number
+  contentTypes: string[]
+}
+
+// Per-request options for fetching image URLs, e.g. for an artifact server
+// behind auth. Header values and credentials never appear in error messages.
+export interface SourceFetchOptions {
+  headers?: Record<string, string>
+  cookies?: Record<string, string> // Sent as a single Cookie header
+  auth?: { username: string; password: string } // Basic auth
+  timeout?: number // Per attempt, in ms, default: none
+  retries?: number // Extra attempts after a 5xx, network error or timeout, default: 0
+  retryDelay?: number // Backoff before the first retry in ms, doubled each retry, default: 200
+}
+
+const SUPPORTED_PROTOCOLS = ["http:", "https:"]
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+const DEFAULT_MAX_REDIRECTS = 3
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024
+const DEFAULT_RETRY_DELAY = 200
+
+const list = (value: string | undefined, fallback: string) =>
+  (value || fallback)
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean)
+
+const nonNegativeInteger = (value: string | undefined, fallback: number) => {
+  const number = Number(value)
+  return value !== undefined && value !== "" && Number.isInteger(number) && number >= 0
+    ? number
+    : fallback
+}
+
+// Read on every fetch so a deployment can change limits without a rebuild
+export function fetchLimitsFromEnv(env: Record<string, string | undefined> = process.env): FetchLimits {
+  return {
+    protocols: list(env.IMAGE_FETCH_PROTOCOLS, "http,https").map((protocol) =>
+      protocol.endsWith(":") ? protocol : `${protocol}:`
+    ),
+    allowPrivateNetworks: env.IMAGE_FETCH_ALLOW_PRIVATE_NETWORKS === "true",
+    maxRedirects: nonNegativeInteger(env.IMAGE_FETCH_MAX_REDIRECTS, DEFAULT_MAX_REDIRECTS),
+    maxBytes: nonNegativeInteger(env.IMAGE_FETCH_MAX_BYTES, DEFAULT_MAX_BYTES),
+    contentTypes: list(env.IMAGE_FETCH_CONTENT_TYPES, "image/*"),
+  }
+}
+
+// Addresses that are not on the public internet
+const PRIVATE_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata services
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 96], // Unspecified, loopback and IPv4-compatible
+  ["::ffff:0:0:0", 96], // IPv4-translated, embeds an IPv4 address
+  ["64:ff9b::", 96], // NAT64, embeds an IPv4 address
+  ["64:ff9b:1::", 48], // Local-use NAT64
+  ["2002::", 16], // 6to4, embeds an IPv4 address
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6")
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) match the IPv4 ranges
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address)
+  return family !== 0 && PRIVATE_RANGES.check(address, family === 6 ? "ipv6" : "ipv4")
+}
+
+// The address is only logged: echoing it would let clients map internal DNS
+function blockedError(hostname: string, address: string) {
+  console.warn(`[image-source] Blocked ${hostname}, which resolves to ${address}`)
+  return new CodedError(
+    "SOURCE_ADDRESS_BLOCKED",
+    `Image source ${hostname} does not resolve to a public address.`
+  )
+}
+
+// Validates what DNS returned at connect time, so a hostname cannot resolve to
+// a public address when checked and a private one when connected
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, "")
+      return
+    }
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address))
+    if (blocked) {
+      callback(blockedError(hostname, blocked.address), "")
+    } else if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+const redactUserinfo = (source: string) => source.replace(/\/\/[^/@]*@/, "//***@")
+
+function parseSourceUrl(source: string, limits: FetchLimits): URL {
+  let url: URL
+  try {
+    url = new URL(source)
+  } catch {
+    throw new CodedError("SOURCE_URL_INVALID", `Failed to parse URL from ${redactUserinfo(source)}`)
+  }
+  if (!SUPPORTED_PROTOCOLS.includes(url.protocol) || !limits.protocols.includes(url.protocol)) {
+    throw new CodedError(
+      "SOURCE_PROTOCOL_NOT_ALLOWED",
+      `Image source protocol ${url.protocol} is not allowed. Use one of: ${limits.protocols.join(", ")}.`
+    )
+  }
+  // Literal IPs never go through DNS, so they are checked here
+  const hostname = url.hostname.replace(/^\[|\]$/g, "")
+  if (!limits.allowPrivateNetworks && isBlockedAddress(hostname)) {
+    throw blockedError(hostname, hostname)
+  }
+  return url
+}
+
+function matchesContentType(contentType: string | undefined, allowed: string[]) {
+  const mediaType = contentType?.split(";")[0].trim().toLowerCase()
+  if (!mediaType) return false
+  return allowed.some((pattern) =>
+    pattern.endsWith("/*") ? mediaType.startsWith(pattern.slice(0, -1)) : mediaType === pattern
+  )
+}
+
+function requestHeaders({ headers, cookies, auth }: SourceFetchOptions): Record<string, string> {
+  const result: Record<string, string> = { ...headers }
+  if (cookies && Object.keys(cookies).length > 0) {
+    result.Cookie = Object.entries(cookies)
+      .map(([name, value]) => `${name}=${value}`)
+      .join("; ")
+  }
+  if (auth) {
+    result.Authorization = `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString("base64")}`
+  }
+  return result
+}
+
+// A non-2xx response, kept apart so only server errors are retried
+class HttpStatusError extends CodedError {
+  constructor(public status: number, statusMessage: string) {
+    super("SOURCE_FETCH_FAILED", `Failed to fetch image: ${status} ${statusMessage}`.trim())
+  }
+}
+
+function get(
+  url: URL,
+  limits: FetchLimits,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http
+    const request = client.get(
+      url,
+      { headers, signal, lookup: limits.allowPrivateNetworks ? undefined : guardedLookup },
+      resolve
+    )
+    request.on("error", reject)
+  })
+}
+
+async function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of response) {
+    size += chunk.length
+    if (size > maxBytes) {
+      response.destroy()
+      throw new CodedError(
+        "SOURCE_TOO_LARGE",
+        `Image source exceeds the ${maxBytes} byte download limit.`
+      )
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function fetchImage(
+  source: string,
+  limits: FetchLimits,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  let url = parseSourceUrl(source, limits)
+  for (let redirects = 0; ; redirects++) {
+    const response = await get(url, limits, headers, signal)
+    const status = response.statusCode ?? 0
+
+    if (REDIRECT_STATUSES.includes(status) && response.headers.location) {
+      response.resume()
+      if (redirects >= limits.maxRedirects) {
+        throw new CodedError(
+          "SOURCE_TOO_MANY_REDIRECTS",
+          `Image source redirected more than ${limits.maxRedirects} times.`
+        )
+      }
+      // Every hop goes through the same protocol and address checks
+      const next = parseSourceUrl(new URL(response.headers.location, url).href, limits)
+      // Credentials are only sent to the origin they were given for
+      if (next.origin !== url.origin) headers = {}
+      url = next
+      continue
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume()
+      throw new HttpStatusError(status, response.statusMessage ?? "")
+    }
+
+    const contentType = response.headers["content-type"]
+    if (!matchesContentType(contentType, limits.contentTypes)) {
+      response.resume()
+      throw new CodedError(
+        "SOURCE_CONTENT_TYPE_INVALID",
+        `Image source has Content-Type ${contentType ?? "(none)"}. Expected one of: ${limits.contentTypes.join(", ")}.`
+      )
+    }
+
+    const contentLength = Number(response.headers["content-length"])
+    if (contentLength > limits.maxBytes) {
+      response.destroy()
+      throw new CodedError(
+        "SOURCE_TOO_LARGE",
+        `Image source is ${contentLength} bytes, over the ${limits.maxBytes} byte download limit.`
+      )
+    }
+
+    return readBody(response, limits.maxBytes)
+  }
+}
+
+// One attempt, bounded by the per-attempt timeout as well as the caller's signal
+async function fetchAttempt(
+  source: string,
+  limits: FetchLimits,
+  options: SourceFetchOptions,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const headers = requestHeaders(options)
+  if (!options.timeout) return fetchImage(source, limits, headers, signal)
+
+  const timeoutSignal = AbortSignal.timeout(options.timeout)
+  try {
+    return await fetchImage(
+      source,
+      limits,
+      headers,
+      signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+    )
+  } catch (error) {
+    if (timeoutSignal.aborted && !signal?.aborted) {
+      throw new CodedError(
+        "SOURCE_FETCH_FAILED",
+        `Image source did not respond within ${options.timeout}ms.`
+      )
+    }
+    throw error
+  }
+}
+
+const isRetryable = (error: unknown) =>
+  error instanceof CodedError &&
+  error.code === "SOURCE_FETCH_FAILED" &&
+  (!(error instanceof HttpStatusError) || error.status >= 500)
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+
+// Loads an image source (data URI or http(s) URL) into a buffer
+export async function base64ToBuffer(
+  dataUri: string,
+  signal?: AbortSignal,
+  options: SourceFetchOptions = {}
+): Promise<Buffer> {
+  if (dataUri.startsWith("data:")) {
+    const base64Data = dataUri.split(",")[1]
+    if (!base64Data) {
+      throw new CodedError("DECODE_FAILED", "Invalid data URI format: missing base64 data")
+    }
+    const cleanBase64 = base64Data.trim().replace(/\s/g, "")
+    return Buffer.from(cleanBase64, "base64")
+  }
+
+  const limits = fetchLimitsFromEnv()
+  const { retries = 0, retryDelay = DEFAULT_RETRY_DELAY } = options
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchAttempt(dataUri, limits, options, signal)
+    } catch (error: any) {
+      // Aborts belong to the caller's deadline, not to the source
+      if (signal?.aborted) throw error
+      const coded =
+        error instanceof CodedError
+          ? error
+          : new CodedError("SOURCE_FETCH_FAILED", `Failed to fetch image: ${error.message}`)
+      if (attempt >= retries || !isRetryable(coded)) throw coded
+    }
+    await sleep(retryDelay * 2 ** attempt, signal)
+  }
+}
@@ -0,0 +1,133 @@
+// Structural similarity (SSIM) over non-overlapping luminance windows.
+// Constants follow Wang et al. (2004) for 8-bit images.
+const C1 = (0.01 * 255) ** 2
+const C2 = (0.03 * 255) ** 2
+
+export interface SsimResult {
+  index: number
+  windows: Float64Array
+  columns: number
+  rows: number
+  windowSize: number
+}
+
+// Luminance of an RGBA pixel, blended over white like pixelmatch does
+function luma(data: Uint8Array, idx: number) {
+  const a = data[idx + 3] / 255
+  const r = 255 + (data[idx] - 255) * a
+  const g = 255 + (data[idx + 1] - 255) * a
+  const b = 255 + (data[idx + 2] - 255) * a
+  return 0.299 * r + 0.587 * g + 0.114 * b
+}
+
+export function computeSsim(
+  img1: Uint8Array,
+  img2: Uint8Array,
+  width: number,
+  height: number,
+  windowSize = 8
+): SsimResult {
+  const columns = Math.ceil(width / windowSize)
+  const rows = Math.ceil(height / windowSize)
+  const windows = new Float64Array(columns * rows)
+  let weightedSum = 0
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const x0 = col * windowSize
+      const y0 = row * windowSize
+      const x1 = Math.min(width, x0 + windowSize)
+      const y1 = Math.min(height, y0 + windowSize)
+      const n = (x1 - x0) * (y1 - y0)
+
+      let sumX = 0
+      let sumY = 0
+      let sumXX = 0
+      let sumYY = 0
+      let sumXY = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const idx = (y * width + x) * 4
+          const lx = luma(img1, idx)
+          const ly = luma(img2, idx)
+          sumX += lx
+          sumY += ly
+          sumXX += lx * lx
+          sumYY += ly * ly
+          sumXY += lx * ly
+        }
+      }
+
+      const meanX = sumX / n
+      const meanY = sumY / n
+      const varX = sumXX / n - meanX * meanX
+      const varY = sumYY / n - meanY * meanY
+      const covXY = sumXY / n - meanX * meanY
+
+      const ssim =
+        ((2 * meanX * meanY + C1) * (2 * covXY + C2)) /
+        ((meanX * meanX + meanY * meanY + C1) * (varX + varY + C2))
+
+      windows[row * columns + col] = ssim
+      weightedSum += ssim * n
+    }
+  }
+
+  return {
+    index: weightedSum / (width * height),
+    windows,
+    columns,
+    rows,
+    windowSize,
+  }
+}
+
+function windowAt(result: SsimResult, x: number, y: number) {
+  const col = Math.floor(x / result.windowSize)
+  const row = Math.floor(y / result.windowSize)
+  return result.windows[row * result.columns + col]
+}
+
+// Marks every pixel whose window scores below the threshold
+export function createSsimMask(
+  result: SsimResult,
+  width: number,
+  height: number,
+  threshold: number
+): { mask: Uint8Array; count: number } {
+  const mask = new Uint8Array(width * height)
+  let count = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (windowAt(result, x, y) < threshold) {
+        mask[y * width + x] = 1
+        count++
+      }
+    }
+  }
+  return { mask, count }
+}
+
+// Paints dissimilarity (1 - SSIM) over a faded copy of the base image:
+// similar windows stay grey, dissimilar ones go from yellow to red
+export function renderSsimHeatmap(
+  result: SsimResult,
+  base: Uint8Array,
+  width: number,
+  height: number,
+  output: Uint8Array
+) {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4
+      const grey = 255 + (luma(base, idx) - 255) * 0.1
+      const dissimilarity = Math.min(1, Math.max(0, 1 - windowAt(result, x, y)))
+      const blend = Math.min(1, dissimilarity * 10)
+
+      output[idx] = Math.round(grey + (255 - grey) * blend)
+      output[idx + 1] = Math.round(grey + (255 * (1 - dissimilarity) - grey) * blend)
+      output[idx + 2] = Math.round(grey * (1 - blend))
+      output[idx + 3] = 255
+    }
+  }
+}
@@ -0,0 +1,230 @@
+// Small schema validator for JSON request bodies. Issues carry a JSON pointer
+// (RFC 6901) to the offending field and a message naming it the way the docs
+// do, e.g. "/options/ignore/colors/0" reads as "options.ignore.colors[0]".
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export interface ValidationResult {
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[] // Unknown fields, which are ignored
+}
+
+// `expected` replaces the generated description in error messages
+export type Rule = { expected?: string } & (
+  | { type: "number"; min?: number; max?: number; exclusiveMin?: boolean; integer?: boolean }
+  | { type: "boolean" }
+  | { type: "string"; minLength?: number; pattern?: RegExp }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "tuple"; items: Rule[] }
+  | { type: "array"; items: Rule }
+  | { type: "object"; properties: Record<string, Rule>; required?: string[] }
+  | { type: "record"; values: Rule } // Object with arbitrary keys, e.g. HTTP headers
+  | { type: "union"; rules: Rule[] }
+)
+
+export function pointerToLabel(path: string): string {
+  if (path === "") return "request body"
+  return path
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce(
+      (label, segment) =>
+        /^\d+$/.test(segment) ? `${label}[${segment}]` : label ? `${label}.${segment}` : segment,
+      ""
+    )
+}
+
+function childPath(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`
+}
+
+function describe(rule: Rule): string {
+  if (rule.expected) return rule.expected
+  switch (rule.type) {
+    case "number": {
+      const kind = rule.integer ? "an integer" : "a number"
+      const lower = rule.exclusiveMin ? `> ${rule.min}` : `>= ${rule.min}`
+      if (rule.min !== undefined && rule.max !== undefined) {
+        return rule.exclusiveMin
+          ? `${kind} ${lower} and <= ${rule.max}`
+          : `${kind} between ${rule.min} and ${rule.max}`
+      }
+      if (rule.min !== undefined) return `${kind} ${lower}`
+      if (rule.max !== undefined) return `${kind} <= ${rule.max}`
+      return kind
+    }
+    case "boolean":
+      return "a boolean"
+    case "string":
+      return rule.minLength ? "a non-empty string" : "a string"
+    case "enum":
+      return `one of: ${rule.values.join(", ")}`
+    case "tuple":
+      return `an array of ${rule.items.length} items`
+    case "array":
+      return "an array"
+    case "object":
+    case "record":
+      return "an object"
+    case "union":
+      return rule.rules.map(describe).join(" or ")
+  }
+}
+
+// JSON kind a rule accepts, used to pick the branch of a union
+function acceptsKind(rule: Rule, value: unknown): boolean {
+  switch (rule.type) {
+    case "number":
+      return typeof value === "number"
+    case "boolean":
+      return typeof value === "boolean"
+    case "string":
+    case "enum":
+      return typeof value === "string"
+    case "tuple":
+    case "array":
+      return Array.isArray(value)
+    case "object":
+    case "record":
+      return typeof value === "object" && value !== null && !Array.isArray(value)
+    case "union":
+      return rule.rules.some((branch) => acceptsKind(branch, value))
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Closest known key for a misspelled one, if it is at most two edits away
+function suggestKey(key: string, known: string[]): string | undefined {
+  let best: { key: string; distance: number } | undefined
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase())
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { key: candidate, distance }
+    }
+  }
+  return best?.key
+}
+
+function check(value: unknown, rule: Rule, path: string, result: ValidationResult) {
+  const fail = () =>
+    result.errors.push({ path, message: `${pointerToLabel(path)} must be ${describe(rule)}.` })
+
+  if (!acceptsKind(rule, value)) {
+    fail()
+    return
+  }
+
+  switch (rule.type) {
+    case "number": {
+      const number = value as number
+      if (
+        !Number.isFinite(number) ||
+        (rule.integer && !Number.isInteger(number)) ||
+        (rule.min !== undefined && (rule.exclusiveMin ? number <= rule.min : number < rule.min)) ||
+        (rule.max !== undefined && number > rule.max)
+      ) {
+        fail()
+      }
+      return
+    }
+    case "string": {
+      const string = value as string
+      if (
+        (rule.minLength !== undefined && string.length < rule.minLength) ||
+        (rule.pattern && !rule.pattern.test(string))
+      ) {
+        fail()
+      }
+      return
+    }
+    case "enum":
+      if (!rule.values.includes(value as string)) fail()
+      return
+    case "tuple": {
+      const items = value as unknown[]
+      if (
+        items.length !== rule.items.length ||
+        rule.items.some((item, i) => {
+          const nested: ValidationResult = { errors: [], warnings: [] }
+          check(items[i], item, childPath(path, i), nested)
+          return nested.errors.length > 0
+        })
+      ) {
+        fail()
+      }
+      return
+    }
+    case "array": {
+      const items = value as unknown[]
+      for (let i = 0; i < items.length; i++) {
+        check(items[i], rule.items, childPath(path, i), result)
+      }
+      return
+    }
+    case "object": {
+      const object = value as Record<string, unknown>
+      const known = Object.keys(rule.properties)
+      for (const key of rule.required ?? []) {
+        if (object[key] === undefined) {
+          result.errors.push({
+            path: childPath(path, key),
+            message: `${pointerToLabel(childPath(path, key))} is required.`,
+          })
+        }
+      }
+      for (const [key, item] of Object.entries(object)) {
+        // Own keys only, so "constructor" and the like are unknown fields
+        const property = Object.hasOwn(rule.properties, key) ? rule.properties[key] : undefined
+        if (property) {
+          if (item !== undefined) check(item, property, childPath(path, key), result)
+          continue
+        }
+        const suggestion = suggestKey(key, known)
+        result.warnings.push({
+          path: childPath(path, key),
+          message:
+            `Unknown field ${pointerToLabel(childPath(path, key))} is ignored.` +
+            (suggestion ? ` Did you mean "${suggestion}"?` : ""),
+        })
+      }
+      return
+    }
+    case "record":
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        check(item, rule.values, childPath(path, key), result)
+      }
+      return
+    case "union": {
+      const branch = rule.rules.find((candidate) => acceptsKind(candidate, value))
+      if (branch) check(value, branch, path, result)
+      return
+    }
+  }
+}
+
+// Validates `value` against `rule`, collecting every error rather than
+// stopping at the first one
+export function validate(value: unknown, rule: Rule, path = ""): ValidationResult {
+  const result: ValidationResult = { errors: [], warnings: [] }
+  check(value, rule, path, result)
+  return result
+}